@@ -0,0 +1,203 @@
+import {
+	createComponent,
+	createMemo,
+	createRenderEffect,
+	createSignal,
+	mergeProps,
+	splitProps,
+	untrack,
+} from "solid-js"
+import { isServer, ssr, ssrHydrationKey, ssrStyle, style } from "solid-js/web"
+import { Editor, getClassName, getNextElement, template } from "./core"
+import { copyButton, createCopyButton } from "./extensions/copy-button"
+import { highlightTokens, languages, tokenizeText } from "./prism"
+import { EditorProps } from "./types"
+
+export type CodeBlockProps = Pick<EditorProps, "value"> &
+	Partial<
+		Pick<EditorProps, "language" | "tabSize" | "lineNumbers" | "wordWrap" | "rtl" | "style">
+	> & {
+		/**
+		 * Whether to add a copy button. Requires styling from
+		 * `solid-prism-editor/copy-button.css`. @default false
+		 */
+		copyButton?: boolean
+		/** Line numbers of the lines that should be highlighted. */
+		highlightedLines?: number[]
+		/**
+		 * Props for the editor the code block is replaced with when it's clicked. The code
+		 * block can't be edited without them. The code, language and appearance of the code
+		 * block are passed on to the editor.
+		 */
+		editorProps?: Partial<EditorProps>
+	}
+
+const blockTemplate = template("<div><div class=pce-wrapper><div class=pce-overlays>")
+
+const sharedProps = [
+	"value",
+	"language",
+	"tabSize",
+	"lineNumbers",
+	"wordWrap",
+	"rtl",
+	"style",
+] as const
+
+const getLinesHTML = (props: CodeBlockProps) => {
+	const highlighted = new Set(props.highlightedLines)
+	return highlightTokens(tokenizeText(props.value, languages[props.language || "text"] || {}))
+		.split("\n")
+		.map(
+			(html, i) =>
+				`<div class="pce-line${
+					highlighted.has(i + 1) ? " pce-highlight" : ""
+				}" aria-hidden=true data-line=${i + 1}>${html}\n</div>`,
+		)
+}
+
+const getBlockClassName = (props: CodeBlockProps) =>
+	getClassName({ ...props, language: props.language || "text", readOnly: true }, false, false) +
+	" pce-code-block"
+
+const getNumberWidth = (lineCount: number) => Math.ceil(Math.log10(lineCount + 1)) + ".001ch"
+
+/** Checks if the target is the copy button or another interactive element in the block. */
+const isInteractive = (container: HTMLDivElement, target: EventTarget | null) => {
+	const element = (target as Element | null)?.closest?.(
+		".pce-copy,a[href],button,input,select,textarea,label,summary,[contenteditable]",
+	)
+	return !!element && element != container && container.contains(element)
+}
+
+/**
+ * Renders the code block as static HTML. The markup is the same as for an editor, except
+ * that there's no `textarea`.
+ */
+const renderBlock = (
+	props: CodeBlockProps,
+	edit: (container: HTMLDivElement, e?: MouseEvent) => void,
+) => {
+	if (isServer) {
+		const lines = getLinesHTML(props)
+		return ssr(
+			[
+				"<div",
+				' class="',
+				'" style="',
+				'"><div class=pce-wrapper><div class=pce-overlays></div>',
+				"</div></div>",
+			],
+			ssrHydrationKey(),
+			getBlockClassName(props),
+			`tab-size:${props.tabSize || 2};--number-width:${getNumberWidth(lines.length)}${
+				props.style ? ";" + ssrStyle(props.style as Record<string, string>) : ""
+			}`,
+			lines.join(""),
+		) as any as HTMLDivElement
+	}
+
+	const container = getNextElement(blockTemplate) as HTMLDivElement
+	const overlays = container.firstChild!.firstChild as HTMLDivElement
+	let isHydrating = !!overlays.nextSibling
+
+	createRenderEffect(() => {
+		container.className = getBlockClassName(props)
+		container.style.tabSize = props.tabSize || (2 as any)
+	})
+
+	// Properties removed from the style prop are removed from the element too
+	createRenderEffect<Record<string, string>>(
+		prev => style(container, props.style as Record<string, string>, prev)!,
+	)
+
+	createRenderEffect(() => {
+		const lines = getLinesHTML(props)
+		// The lines rendered on the server are kept while hydrating
+		if (isHydrating) isHydrating = false
+		else {
+			while (overlays.nextSibling) overlays.nextSibling.remove()
+			overlays.insertAdjacentHTML("afterend", lines.join(""))
+		}
+		container.style.setProperty("--number-width", getNumberWidth(lines.length))
+	})
+
+	createRenderEffect(() => {
+		const editable = !!props.editorProps
+		container.tabIndex = editable ? 0 : -1
+		container.onclick = editable
+			? e => {
+					if (isInteractive(container, e.target)) return
+					// Selecting text in the code block shouldn't make it editable
+					if (getSelection()?.isCollapsed != false) edit(container, e)
+			  }
+			: null
+		container.onkeydown = editable
+			? e => {
+					if (e.key == "Enter" && !isInteractive(container, e.target)) edit(container)
+			  }
+			: null
+	})
+
+	let button: Element | undefined
+	createRenderEffect(() => {
+		if (props.copyButton) overlays.append((button ||= createCopyButton(() => props.value)))
+		else button?.remove()
+	})
+
+	return container
+}
+
+/**
+ * Lightweight component displaying highlighted code with the same markup and styling as
+ * an {@link Editor}, but without a `textarea`, selection tracking or extensions. This makes
+ * it well suited for pages with many code snippets. Can be rendered on the server.
+ *
+ * If the `editorProps` prop is set, the code block is replaced with an editor when it's
+ * clicked or when Enter is pressed while it's focused. The editor's cursor is placed where
+ * the code block was clicked.
+ *
+ * Highlighted lines require styling from `solid-prism-editor/layout.css`.
+ * @param props Props to customize the code block.
+ * @returns The container for the code block, or the editor once the code block is edited.
+ */
+const CodeBlock = (props: CodeBlockProps) => {
+	const [editing, setEditing] = createSignal(false)
+	const [shared] = splitProps(props, sharedProps)
+	const copy = copyButton()
+	let point: [number, number] | undefined
+	let scroll: [number, number]
+
+	const edit = (container: HTMLDivElement, e?: MouseEvent) => {
+		point = e && [e.clientX, e.clientY]
+		scroll = [container.scrollLeft, container.scrollTop]
+		setEditing(true)
+	}
+
+	const createEditor = () => {
+		const editorProps = props.editorProps!
+		return createComponent(
+			Editor,
+			mergeProps(shared, editorProps, {
+				get extensions() {
+					const extensions = editorProps.extensions || []
+					return props.copyButton ? [copy, ...extensions] : extensions
+				},
+				onMount(editor) {
+					const { container, textarea } = editor
+					const lines = props.highlightedLines
+					container.scrollTo(...scroll)
+					if (lines)
+						editor.addLineDecorations(lines.map(line => ({ line, class: "pce-highlight" })))
+					textarea.focus({ preventScroll: true })
+					editor.setSelection(point ? editor.posAtCoords(...point) : 0)
+					editorProps.onMount?.(editor)
+				},
+			} as Partial<EditorProps>),
+		)
+	}
+
+	return createMemo(() => untrack(editing() ? createEditor : () => renderBlock(props, edit)))
+}
+
+export { CodeBlock }
@@ -0,0 +1,253 @@
+/** @vitest-environment jsdom */
+
+import { describe, expect, test } from "vitest"
+import { createRoot } from "solid-js"
+import {
+	Editor,
+	isMac,
+	mapLines,
+	mapPosition,
+	mapRanges,
+	mapSelections,
+	mergeSelections,
+	normalizeKeys,
+} from "./core"
+import { InputSelection, PrismEditor } from "./types"
+
+describe("mergeSelections", () => {
+	test("merges overlapping ranges", () => {
+		expect(
+			mergeSelections([
+				[0, 4, "forward"],
+				[2, 6, "forward"],
+				[3, 5, "forward"],
+			]),
+		).toEqual([[0, 6, "forward"]])
+	})
+
+	test("keeps touching ranges apart unless one is a cursor", () => {
+		expect(
+			mergeSelections([
+				[10, 12, "forward"],
+				[12, 14, "forward"],
+				[14, 14, "none"],
+			]),
+		).toEqual([
+			[10, 12, "forward"],
+			[12, 14, "forward"],
+		])
+	})
+
+	test("keeps the primary selection first", () => {
+		const selections: InputSelection[] = [
+			[20, 22, "none"],
+			[0, 2, "none"],
+			[10, 12, "none"],
+		]
+		expect(mergeSelections(selections)).toEqual([
+			[20, 22, "none"],
+			[0, 2, "none"],
+			[10, 12, "none"],
+		])
+	})
+
+	test("keeps the primary selection's direction when merged", () => {
+		expect(
+			mergeSelections([
+				[3, 8, "backward"],
+				[0, 5, "forward"],
+			]),
+		).toEqual([[0, 8, "backward"]])
+	})
+
+	test("merges cursors at the same position", () => {
+		expect(
+			mergeSelections([
+				[5, 5, "none"],
+				[5, 5, "none"],
+				[7, 7, "none"],
+			]),
+		).toEqual([
+			[5, 5, "none"],
+			[7, 7, "none"],
+		])
+	})
+})
+
+describe("mapPosition", () => {
+	const changes = [
+		{ from: 2, to: 2, insert: "ab" },
+		{ from: 5, to: 8, insert: "x" },
+	]
+
+	test("moves positions after an insert at the position unless before is set", () => {
+		expect(mapPosition(2, changes)).toBe(4)
+		expect(mapPosition(2, changes, true)).toBe(2)
+	})
+
+	test("moves positions inside a replaced range to the start of the replacement", () => {
+		expect(mapPosition(6, changes)).toBe(7)
+		expect(mapPosition(8, changes)).toBe(8)
+	})
+
+	test("offsets positions after the changes", () => {
+		expect(mapPosition(1, changes)).toBe(1)
+		expect(mapPosition(10, changes)).toBe(10)
+	})
+})
+
+describe("mapRanges", () => {
+	test("maps decorations across edits", () => {
+		const decorations = [
+			{ from: 0, to: 3, class: "a" },
+			{ from: 4, to: 8, class: "b" },
+			{ from: 10, to: 12, class: "c" },
+		]
+		expect(
+			mapRanges(decorations, [
+				{ from: 4, to: 4, insert: "xx" },
+				{ from: 8, to: 8, insert: "y" },
+				{ from: 10, to: 12, insert: "" },
+			]),
+		).toEqual([
+			{ from: 0, to: 3, class: "a" },
+			{ from: 6, to: 10, class: "b" },
+		])
+	})
+
+	test("shrinks decorations partly covered by a change", () => {
+		expect(mapRanges([{ from: 2, to: 6 }], [{ from: 4, to: 8, insert: "z" }])).toEqual([
+			{ from: 2, to: 4 },
+		])
+	})
+})
+
+describe("mapSelections", () => {
+	test("maps both ends and keeps the direction", () => {
+		expect(
+			mapSelections(
+				[
+					[1, 5, "backward"],
+					[6, 6, "none"],
+				],
+				[{ from: 0, to: 2, insert: "abc" }],
+			),
+		).toEqual([
+			[0, 6, "backward"],
+			[7, 7, "none"],
+		])
+	})
+})
+
+describe("mapLines", () => {
+	const value = "a\nb\nc\nd"
+	const decorations = [1, 2, 3, 4].map(line => ({ line, class: "line-" + line }))
+
+	test("moves lines after added lines", () => {
+		expect(mapLines(decorations, [{ from: 2, to: 2, insert: "x\n" }], value)).toEqual([
+			{ line: 1, class: "line-1" },
+			{ line: 3, class: "line-2" },
+			{ line: 4, class: "line-3" },
+			{ line: 5, class: "line-4" },
+		])
+	})
+
+	test("keeps lines edited after their start", () => {
+		expect(mapLines(decorations, [{ from: 3, to: 3, insert: "\nx" }], value)).toEqual([
+			{ line: 1, class: "line-1" },
+			{ line: 2, class: "line-2" },
+			{ line: 4, class: "line-3" },
+			{ line: 5, class: "line-4" },
+		])
+	})
+
+	test("removes lines whose start is removed", () => {
+		expect(mapLines(decorations, [{ from: 1, to: 5, insert: "" }], value)).toEqual([
+			{ line: 1, class: "line-1" },
+			{ line: 2, class: "line-4" },
+		])
+	})
+})
+
+describe("normalizeKeys", () => {
+	test("sorts the modifiers", () => {
+		expect(normalizeKeys("Shift-Ctrl-Alt-k")).toBe("Alt-Ctrl-Shift-k")
+		expect(normalizeKeys("shift-alt-Enter")).toBe(normalizeKeys("Alt-Shift-Enter"))
+	})
+
+	test("resolves Mod to the platform's modifier", () => {
+		expect(normalizeKeys("Mod-Shift-k")).toBe(isMac ? "Meta-Shift-k" : "Ctrl-Shift-k")
+		expect(normalizeKeys("Shift-Mod-k")).toBe(normalizeKeys("Mod-Shift-k"))
+	})
+
+	test("normalizes the key name", () => {
+		expect(normalizeKeys("Ctrl-K")).toBe("Ctrl-k")
+		expect(normalizeKeys("Ctrl- ")).toBe("Ctrl-Space")
+		expect(normalizeKeys("Ctrl--")).toBe("Ctrl--")
+	})
+
+	test("returns an empty string for invalid modifiers", () => {
+		expect(normalizeKeys("Hyper-k")).toBe("")
+	})
+})
+
+describe("keymap", () => {
+	globalThis.ResizeObserver ||= class {
+		observe() {}
+		unobserve() {}
+		disconnect() {}
+	}
+
+	const createEditor = () => {
+		let editor!: PrismEditor
+		createRoot(() => Editor({ value: "", onMount: e => (editor = e) }))
+		return editor
+	}
+	const keydown = (key: string, init?: KeyboardEventInit) =>
+		new KeyboardEvent("keydown", { key, ...init })
+
+	test("runs bindings with higher precedence first", () => {
+		const editor = createEditor()
+		const calls: string[] = []
+		const binding =
+			(name: string, handled = false) =>
+			() =>
+				!calls.push(name) || handled
+
+		editor.keymap.add([
+			{ key: "F2", precedence: "low", run: binding("low") },
+			{ key: "F2", precedence: "highest", run: binding("highest") },
+			{ key: "F2", run: binding("default") },
+		])
+		editor.keymap.add([{ key: "F2", run: binding("default2") }])
+
+		expect(editor.keymap.handle(keydown("F2"))).toBe(false)
+		expect(calls).toEqual(["highest", "default2", "default", "low"])
+	})
+
+	test("skips the remaining bindings once one handles the key", () => {
+		const editor = createEditor()
+		const calls: string[] = []
+
+		editor.keymap.add([
+			{ key: "Alt-F2", precedence: "low", run: () => !calls.push("low") },
+			{ key: "F2-Alt", run: () => !calls.push("invalid") },
+			{ key: "alt-F2", precedence: "high", run: () => !!calls.push("high") },
+		])
+
+		expect(editor.keymap.handle(keydown("F2", { altKey: true }))).toBe(true)
+		expect(calls).toEqual(["high"])
+	})
+
+	test("matches bindings for other scopes only when handling that scope", () => {
+		const editor = createEditor()
+		let handled = 0
+
+		editor.keymap.add([{ key: "Mod-F2", scope: "search", run: () => !!++handled }])
+
+		const e = keydown("F2", isMac ? { metaKey: true } : { ctrlKey: true })
+		expect(editor.keymap.handle(e)).toBe(false)
+		expect(editor.keymap.handle(e, "search")).toBe(true)
+		expect(handled).toBe(1)
+	})
+})
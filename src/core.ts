@@ -1,10 +1,16 @@
 import {
 	For,
+	Setter,
+	Signal,
+	batch,
 	createComponent,
+	createMemo,
 	createRenderEffect,
 	createSignal,
 	mergeProps,
 	on,
+	getOwner,
+	onCleanup,
 	onMount,
 	untrack,
 } from "solid-js"
@@ -15,10 +21,25 @@ import type {
 	InputCommandCallback,
 	InputSelection,
 	KeyCommandCallback,
+	KeyBinding,
+	Keymap,
+	Command,
+	CommandRegistry,
 	Extension,
+	EditorChange,
+	RangeDecoration,
+	LineDecoration,
+	DecorationSet,
+	EditorDocument,
+	EditorState,
+	ChangeFilter,
 } from "./types"
+import { attachDocument, detachDocument, shareHistory, syncDocument } from "./document"
 import { TokenStream, highlightTokens, languages, tokenizeText } from "./prism"
-import { insert, style, template } from "solid-js/web"
+import { diffText, patchTokens, tokenizeIncremental } from "./prism/incremental"
+import { TokenizeRequest, TokenizeResponse, deserializeTokens } from "./prism/worker"
+import * as web from "solid-js/web"
+import { escape, insert, isServer, ssr, ssrHydrationKey, ssrStyle } from "solid-js/web"
 
 /**
  * The core editor component of the library.
@@ -26,23 +47,55 @@ import { insert, style, template } from "solid-js/web"
  * @returns The container for the editor.
  */
 const Editor = (props: Partial<EditorProps>) => {
+	if (isServer)
+		return renderEditor(
+			mergeProps(
+				{ language: "text", value: "" },
+				props,
+				props.document && { value: props.document.value(), language: props.document.language() },
+			),
+		)
+
 	let handleSelecionChange = true
 	let activeLine: Element
 	let prevLines: string[] = []
 	let language = ""
 	let value = ""
-	let prevValue: string
+	let prevValue: string | undefined
 	let prevClass: string
 	let activeLineNumber = 0
 	let lineCount = 0
 	let isFirstRender = true
-	let editorProps: EditorProps = mergeProps({ language: "text", value }, props)
+	let isHydrated = false
+	let isMounted = false
+	let workerRequest: number
+	let workerFailed: boolean
+	let isWaiting: boolean
+	let hasPendingRequest: boolean
+	let virtualize: boolean | undefined
+	let plainLines: string[] = []
+	let highlighted = new WeakSet<Element>()
+	let renderedLines: HTMLDivElement[] = []
+	let lineHeight = 0
+	let dispatched: EditorChange[] | undefined
+	let decoratedLines: [HTMLDivElement, string[], string[]][] = []
+	let currentDocument: EditorDocument | undefined
+	let pendingState: EditorState | undefined
+	let editorProps: EditorProps = mergeProps({ language: "text", value }, props, {
+		get language() {
+			return props.document?.language()
+		},
+	})
 
-	const container = editorTemplate() as HTMLDivElement
+	// Adopts the markup rendered on the server when hydrating
+	const container = getNextElement(editorTemplate) as HTMLDivElement
 	const wrapper = container.firstChild as HTMLDivElement
-	const lines = wrapper.children as HTMLCollectionOf<HTMLDivElement>
+	const lines = [...wrapper.children] as HTMLDivElement[]
+	const isHydrating = !!lines[1]
 	const overlays = lines[0]
 	const textarea = overlays.firstChild as HTMLTextAreaElement
+	const decorationContainer = decorationTemplate() as HTMLDivElement
+	const spacers = [spacerTemplate(), spacerTemplate(), spacerTemplate()] as HTMLDivElement[]
 
 	const getInputSelection = (): InputSelection => [
 		textarea.selectionStart,
@@ -51,12 +104,25 @@ const Editor = (props: Partial<EditorProps>) => {
 	]
 
 	const [selection, setSelection] = createSignal(getInputSelection())
+	const [extraSelections, setExtraSelections] = createSignal<InputSelection[]>([])
 	const [focused, setFocused] = createSignal(false)
 	const [tokens, setTokens] = createSignal<TokenStream>([])
+	const [decorationSets, setDecorationSets] = createSignal<Signal<RangeDecoration[]>[]>([])
+	const [lineDecorationSets, setLineDecorationSets] = createSignal<Signal<LineDecoration[]>[]>([])
+
+	const selections = createMemo(() => [selection(), ...extraSelections()])
+
+	const getSelections = () => [getInputSelection(), ...untrack(extraSelections)]
 
 	const updateSelection = (force?: boolean) => {
 		if (force || handleSelecionChange) {
 			const selection = getInputSelection()
+			const prev = untrack(editor.selection)
+
+			// The user moved the caret which removes the extra selections
+			if (!force && (prev[0] != selection[0] || prev[1] != selection[1])) {
+				if (untrack(extraSelections)[0]) setExtraSelections([])
+			}
 			const newLine =
 				lines[(activeLineNumber = numLines(value, 0, selection[selection[2] < "f" ? 0 : 1]))]
 
@@ -64,17 +130,15 @@ const Editor = (props: Partial<EditorProps>) => {
 				activeLine?.classList.remove("active-line")
 				newLine.classList.add("active-line")
 				activeLine = newLine
+				// Tokens on the active line are often needed by extensions
+				updateVisibleLines()
 			}
 
 			setSelection(selection)
 		}
 	}
 
-	const keyCommandMap: Record<string, KeyCommandCallback | null> = {
-		Escape() {
-			textarea.blur()
-		},
-	}
+	const keyCommandMap: Record<string, KeyCommandCallback | null> = {}
 
 	const inputCommandMap: Record<string, InputCommandCallback | null> = {}
 
@@ -93,19 +157,328 @@ const Editor = (props: Partial<EditorProps>) => {
 			{ once: true },
 		)
 
+	const highlightLine = (index: number) => {
+		const line = lines[index]
+		if (virtualize && !highlighted.has(line)) {
+			// Only the text is replaced to keep the elements extensions have added to the line
+			for (const node of line.childNodes) {
+				if (node.nodeType == 3) {
+					node.replaceWith(createFragment(prevLines[index - 1] + "\n"))
+					break
+				}
+			}
+			highlighted.add(line)
+		}
+	}
+
+	/**
+	 * Adds the lines in and near the viewport along with the active line to the DOM and
+	 * syntax highlights them. The other lines are replaced by spacers with the same height.
+	 * Only used when virtualization is enabled.
+	 */
+	const updateVisibleLines = () => {
+		if (!virtualize || isFirstRender) return
+		const measured = renderedLines.find(line => line.isConnected)
+		const wrapperTop = wrapper.getBoundingClientRect().top
+		const rect = container.getBoundingClientRect()
+		// Fractional heights are needed to stay aligned with the textarea in long documents
+		const height =
+			measured?.getBoundingClientRect().height ||
+			lineHeight ||
+			parseFloat(getComputedStyle(wrapper).lineHeight) ||
+			20
+		const top = Math.max(rect.top, 0) - wrapperTop
+		const bottom = Math.min(rect.bottom, innerHeight) - wrapperTop
+		const first = Math.max(Math.min(Math.floor(top / height) - 9, lineCount), 1)
+		const last = Math.max(Math.min(Math.ceil(bottom / height) + 10, lineCount), first)
+		const visible: HTMLDivElement[] = []
+		const nodes: HTMLDivElement[] = []
+		let spacerCount = 0
+		let prev: Element = overlays
+		let line = 1
+
+		const addLines = (start: number, end: number) => {
+			if (start > line) {
+				const spacer = spacers[spacerCount++]
+				spacer.style.height = (start - line) * height + "px"
+				nodes.push(spacer)
+			}
+			for (line = start; line <= end; line++) {
+				highlightLine(line)
+				visible.push(lines[line])
+				nodes.push(lines[line])
+			}
+		}
+
+		lineHeight = height
+		if (activeLineNumber < first) addLines(activeLineNumber, activeLineNumber)
+		addLines(first, last)
+		if (activeLineNumber > last) addLines(activeLineNumber, activeLineNumber)
+		addLines(lineCount + 1, lineCount)
+
+		renderedLines.forEach(line => visible.includes(line) || line.remove())
+		spacers.forEach(spacer => nodes.includes(spacer) || spacer.remove())
+		nodes.forEach(node => {
+			if (prev.nextSibling != node) prev.after(node)
+			prev = node
+		})
+		renderedLines = visible
+
+		// Updating again if the estimated line height was wrong
+		if (!measured && visible[0]?.getBoundingClientRect().height) updateVisibleLines()
+	}
+
+	/** Sends the code to the worker unless it's still tokenizing older code. */
+	const requestTokens = (worker: Worker) => {
+		if (isWaiting) hasPendingRequest = true
+		else {
+			isWaiting = true
+			worker.postMessage([(workerRequest = ++requestCount), value, language] as TokenizeRequest)
+		}
+	}
+
 	const update = () => {
-		setTokens(tokenizeText((value = textarea.value), languages[language] || {}))
+		const worker = !workerFailed && editorProps.worker
+		value = textarea.value
+		if (worker) {
+			// Displaying plain text until the worker is done
+			setTokens([value])
+			requestTokens(worker)
+		} else setTokens(tokenizeText(value, languages[language] || {}))
+	}
+
+	/** Only tokenizes the changed region of the code. */
+	const updateIncremental = () => {
+		const worker = !workerFailed && editorProps.worker
+		const oldValue = value
+		const oldTokens = untrack(tokens)
+
+		value = textarea.value
+		if (worker) {
+			setTokens(patchTokens(oldValue, oldTokens, value))
+			requestTokens(worker)
+		} else setTokens(tokenizeIncremental(oldValue, oldTokens, value, languages[language] || {}))
+	}
+
+	/**
+	 * Maps the positions of all decorations through the changes. Must be called before
+	 * `value` is updated.
+	 */
+	const mapDecorations = (changes: EditorChange[]) => {
+		untrack(decorationSets).forEach(([decorations, setDecorations]) => {
+			setDecorations(mapRanges(untrack(decorations), changes))
+		})
+		untrack(lineDecorationSets).forEach(([decorations, setDecorations]) => {
+			setDecorations(mapLines(untrack(decorations), changes, value))
+		})
+	}
+
+	const createDecorationSet = <T>(
+		setSets: Setter<Signal<any[]>[]>,
+		decorations: T[],
+		isValid: (decoration: T) => boolean,
+	): DecorationSet<T> => {
+		const set = createSignal(decorations.filter(isValid))
+		const remove = () => setSets(sets => sets.filter(s => s != set))
+
+		setSets(sets => [...sets, set])
+		if (getOwner()) onCleanup(remove)
+
+		return {
+			decorations: set[0],
+			set(decorations) {
+				set[1](decorations.filter(isValid))
+			},
+			remove,
+		}
+	}
+
+	const [changeFilters, setChangeFilters] = createSignal<ChangeFilter[]>([])
+
+	/** Passes the changes through all change filters. */
+	const filterChanges = (changes: EditorChange[]) =>
+		untrack(changeFilters).reduce((changes, filter) => filter(changes, value), changes)
+
+	/** Inserts sorted changes that have already been filtered using `execCommand`. */
+	const insertChanges = (sorted: EditorChange[], newSelections: InputSelection[]) => {
+		let start = sorted[0].from
+		let end = start
+		let text = ""
+
+		for (let { from, to, insert } of sorted) {
+			text += value.slice(end, from) + insert
+			end = to
+		}
+
+		// Bug inserting new lines at the end if the editor ends with an empty line
+		let avoidBug = isChrome && !value[end] && /\n$/.test(text) && /^$|\n$/.test(value)
+
+		prevSelection = getInputSelection()
+		dispatched = sorted
+		untrack(focused) || textarea.focus()
+		textarea.setSelectionRange(start, end)
+		addTextareaListener(editor, "input", () => editor.setSelections(newSelections), {
+			once: true,
+			capture: true,
+		})
+
+		// Only Safari dispatches a beforeinput event
+		isWebKit || textarea.dispatchEvent(new InputEvent("beforeinput", { data: text }))
+
+		// Inserting escaped HTML in Chrome and Safari instead for much better performance
+		if (isChrome || isWebKit) {
+			if (avoidBug) {
+				// This means the last new line won't be inserted if there's
+				// no selection, but that's less annoying than the bug.
+				textarea.selectionEnd--
+				text = text.slice(0, -1)
+			}
+			// New line at the end is always ignored in Safari
+			if (isWebKit) text += "\n"
+			document.execCommand(
+				text ? "insertHTML" : "delete",
+				false,
+				text.replace(/&/g, "&amp;").replace(/</g, "&lt;"),
+			)
+			if (avoidBug) textarea.selectionStart++
+		} else document.execCommand(text ? "insertText" : "delete", false, text)
+
+		prevSelection = 0
+		dispatched = undefined
+	}
+
+	/**
+	 * Estimates the coordinates of a position on a line that isn't rendered due to
+	 * virtualization. All lines have the same height since word wrap is disabled, and the
+	 * characters are assumed to have the same width as in the rendered lines.
+	 */
+	const estimateCoords = (lineNumber: number, textBefore: string) => {
+		const tabSize = editorProps.tabSize || 2
+		let charWidth = 0
+		let column = 0
+		let start: DOMRect | undefined
+
+		for (const line of renderedLines) {
+			if (!line.isConnected) continue
+			start ||= line.getBoundingClientRect()
+			const node = getCodeNodes(line).find(node => /^[^\t\n]/.test(node.data))
+			if (node) {
+				const range = document.createRange()
+				range.setStart(node, 0)
+				range.setEnd(node, 1)
+				charWidth = range.getBoundingClientRect().width
+				break
+			}
+		}
+		if (!start) return null
+
+		for (const char of textBefore) column += char == "\t" ? tabSize - (column % tabSize) : 1
+		const top = wrapper.getBoundingClientRect().top + (lineNumber - 1) * lineHeight
+		const offset = column * charWidth
+		return new DOMRect(
+			editorProps.rtl ? start.right - offset : start.left + offset,
+			top,
+			0,
+			lineHeight,
+		)
+	}
+
+	/** Added key bindings with their normalized keys and precedence in the order they run. */
+	const [keyBindings, setKeyBindings] = createSignal<[KeyBinding, string, number][]>([])
+
+	const keymap: Keymap = {
+		add(bindings) {
+			const added = bindings.map(
+				binding =>
+					[
+						binding,
+						normalizeKeys(binding[platform] ?? binding.key ?? ""),
+						precedences.indexOf(binding.precedence || "default"),
+					] as [KeyBinding, string, number],
+			)
+			const remove = () => setKeyBindings(entries => entries.filter(e => !added.includes(e)))
+
+			// Sorting is stable, so the bindings added last run first within a precedence
+			setKeyBindings(entries => [...added, ...entries].sort((a, b) => b[2] - a[2]))
+			if (getOwner()) onCleanup(remove)
+
+			return remove
+		},
+		bindings: () => keyBindings().map(entry => entry[0]),
+		lookup(keys, scope) {
+			keys = normalizeKeys(keys)
+			return keyBindings()
+				.filter(([binding, key]) => key && key == keys && binding.scope == scope)
+				.map(entry => entry[0])
+		},
+		conflicts() {
+			const groups: Record<string, KeyBinding[]> = {}
+			keyBindings().forEach(([binding, key, precedence]) => {
+				if (key) (groups[[key, binding.scope, precedence] + ""] ||= []).push(binding)
+			})
+			return Object.values(groups).filter(group => group[1])
+		},
+		handle(e, scope) {
+			const keys = getEventKeys(e)
+			const selection = getInputSelection()
+			for (const [binding, key] of untrack(keyBindings)) {
+				if (
+					binding.scope == scope &&
+					(keys.includes(key) || key == "Any") &&
+					(binding.run ? binding.run(e, selection, value) : commands.run(binding.command!))
+				) {
+					preventDefault(e)
+					return true
+				}
+			}
+			return false
+		},
+	}
+
+	/** Added commands with the last added first. */
+	const [commandList, setCommandList] = createSignal<Command[]>([])
+
+	const commands: CommandRegistry = {
+		add(added) {
+			const removeKeys = keymap.add(
+				added.flatMap(({ name, keys = [] }) =>
+					keys.map(binding => ({ ...binding, command: name })),
+				),
+			)
+			const remove = () => {
+				setCommandList(list => list.filter(command => !added.includes(command)))
+				removeKeys()
+			}
+
+			setCommandList(list => [...added.slice().reverse(), ...list])
+			if (getOwner()) onCleanup(remove)
+
+			return remove
+		},
+		list: () =>
+			commandList()
+				.filter((command, i, list) => list.findIndex(c => c.name == command.name) == i)
+				.reverse(),
+		get: name => untrack(commandList).find(command => command.name == name),
+		run: name => !!commands.get(name)?.run(),
+		keys: name =>
+			keyBindings()
+				.filter(([binding, key]) => key && binding.command == name)
+				.map(entry => entry[1]),
 	}
 
 	const editor: PrismEditor = {
 		inputCommandMap,
 		keyCommandMap,
+		keymap,
+		commands,
 		extensions: {},
 		props: editorProps,
 		get value() {
 			return value
 		},
 		selection,
+		selections,
 		tokens,
 		focused,
 		get activeLine() {
@@ -117,11 +490,179 @@ const Editor = (props: Partial<EditorProps>) => {
 		textarea,
 		update,
 		getSelection: getInputSelection,
+		getSelections,
 		setSelection(start, end = start, direction) {
 			focusRelatedTarget()
 			textarea.setSelectionRange(start, end, direction)
+			setExtraSelections([])
 			updateSelection(true)
 		},
+		setSelections(selections) {
+			const [primary, ...rest] = mergeSelections(selections)
+			focusRelatedTarget()
+			textarea.setSelectionRange(...primary)
+			setExtraSelections(rest)
+			// If the value of the textarea has changed, the next render updates the selection
+			if (textarea.value == value) updateSelection(true)
+		},
+		dispatch(changes, selections) {
+			if (editorProps.readOnly) return
+			const sorted = changes
+				.filter(change => change.from < change.to || change.insert)
+				.sort((a, b) => a.from - b.from)
+
+			if (!sorted[0]) {
+				if (selections) editor.setSelections(selections)
+				return
+			}
+
+			const filtered = filterChanges(sorted)
+			if (!filtered[0]) return
+
+			// The selections might not fit the changes once they've been filtered
+			insertChanges(
+				filtered,
+				selections &&
+					(filtered == sorted || applyToText(value, filtered) == applyToText(value, sorted))
+					? selections
+					: mapSelections(getSelections(), filtered),
+			)
+		},
+		applyChanges(changes) {
+			const sorted = changes
+				.filter(change => change.from < change.to || change.insert)
+				.sort((a, b) => a.from - b.from)
+
+			if (!sorted[0]) return
+
+			const { scrollLeft, scrollTop } = container
+			const selections = mapSelections(getSelections(), sorted)
+
+			textarea.value = applyToText(value, sorted)
+			batch(() => {
+				mapDecorations(sorted)
+				updateIncremental()
+			})
+			editor.setSelections(selections)
+			container.scrollTo(scrollLeft, scrollTop)
+			editorProps.onChange?.(sorted, editor)
+			if (currentDocument) syncDocument(currentDocument, editor, sorted)
+		},
+		addChangeFilter(filter) {
+			const remove = () => setChangeFilters(filters => filters.filter(f => f != filter))
+
+			setChangeFilters(filters => [...filters, filter])
+			if (getOwner()) onCleanup(remove)
+
+			return remove
+		},
+		addDecorations: decorations =>
+			createDecorationSet(
+				setDecorationSets,
+				decorations,
+				({ from, to }) => from < to && from >= 0 && to <= value.length,
+			),
+		addLineDecorations: decorations =>
+			createDecorationSet(
+				setLineDecorationSets,
+				decorations,
+				({ line }) => line > 0 && line <= lineCount,
+			),
+		coordsAtPos(pos) {
+			if (pos < 0 || pos > value.length) return null
+			const lineNumber = numLines(value, 0, pos)
+			const line = lines[lineNumber]
+			const lineStart = pos ? value.lastIndexOf("\n", pos - 1) + 1 : 0
+			// Lines outside the viewport aren't in the document with virtualization
+			if (!line.isConnected) return estimateCoords(lineNumber, value.slice(lineStart, pos))
+			// Every line ends with a new line, so there's always a character after the position
+			const [node, offset, rect] = measureChar(line, pos - lineStart)!
+			const x = rtlChar.test(node.data[offset]) ? rect.right : rect.left
+			return new DOMRect(x, rect.y, 0, rect.height)
+		},
+		posAtCoords(x, y) {
+			const range = document.createRange()
+			const distanceY = (rect: DOMRect) =>
+				rect.top > y ? rect.top - y : Math.max(y - rect.bottom, 0)
+			let low = 1
+			let high = lineCount
+			let offset = 0
+			let minY = Infinity
+			let minX = Infinity
+			let pos = 0
+
+			if (virtualize) {
+				// All lines have the same height since word wrap is disabled
+				const top = wrapper.getBoundingClientRect().top
+				low = Math.max(Math.min(Math.floor((y - top) / lineHeight) + 1, lineCount), 1)
+			}
+			while (low < high && !virtualize) {
+				const mid = (low + high) >> 1
+				if (lines[mid].getBoundingClientRect().bottom <= y) low = mid + 1
+				else high = mid
+			}
+			for (let i = 1; i < low; i++) offset = value.indexOf("\n", offset) + 1
+			if (!lines[low].isConnected) return offset
+
+			const nodes = getCodeNodes(lines[low])
+			const distances = nodes.map(node => {
+				range.selectNodeContents(node)
+				const distance = Math.min(...Array.from(range.getClientRects(), distanceY))
+				if (distance < minY) minY = distance
+				return distance
+			})
+
+			// Only the characters on the wrapped row closest to the point are compared
+			nodes.forEach((node, i) => {
+				if (distances[i] == minY) {
+					for (let j = 0, l = node.length; j < l; j++) {
+						range.setStart(node, j)
+						range.setEnd(node, j + 1)
+						const rect = range.getBoundingClientRect()
+						const char = node.data[j]
+						const distance = x < rect.left ? rect.left - x : Math.max(x - rect.right, 0)
+
+						if (distance < minX && distanceY(rect) == minY) {
+							minX = distance
+							// Rounding to the closest side of the character
+							pos =
+								offset + j + +(char != "\n" && x > rect.x + rect.width / 2 != rtlChar.test(char))
+						}
+					}
+				}
+				offset += node.length
+			})
+
+			return pos
+		},
+		getState() {
+			const { history, folding } = editor.extensions
+			return {
+				value: folding ? folding.fullCode : value,
+				selections: getSelections(),
+				scroll: [container.scrollLeft, container.scrollTop],
+				history: history?.getState(),
+				folds: folding?.getFoldedLines(),
+			}
+		},
+		setState(state) {
+			const { history, folding } = editor.extensions
+			const newValue = state.value
+			if (newValue != value) {
+				if (untrack(decorationSets)[0] || untrack(lineDecorationSets)[0]) {
+					mapDecorations([diffText(value, newValue)])
+				}
+				textarea.value = newValue
+				update()
+			}
+			folding?.setFoldedLines(state.folds || [])
+			if (history) {
+				if (state.history) history.setState(state.history)
+				else history.clear()
+			}
+			editor.setSelections(state.selections)
+			container.scrollTo(...state.scroll)
+		},
 	}
 
 	createRenderEffect(() => {
@@ -131,11 +672,7 @@ const Editor = (props: Partial<EditorProps>) => {
 	})
 
 	createRenderEffect(() => {
-		let newClass = `prism-code-editor language-${editorProps.language}${
-			editorProps.lineNumbers == false ? "" : " show-line-numbers"
-		} pce-${editorProps.wordWrap ? "" : "no"}wrap${editorProps.rtl ? " pce-rtl" : ""} pce-${
-			selection()[0] < selection()[1] ? "has" : "no"
-		}-selection${focused() ? " pce-focus" : ""}${editorProps.readOnly ? " pce-readonly" : ""}`
+		let newClass = getClassName(editorProps, selection()[0] < selection()[1], focused())
 		if (prevClass != newClass) container.className = prevClass = newClass
 	})
 
@@ -157,27 +694,57 @@ const Editor = (props: Partial<EditorProps>) => {
 		let end2 = lineCount
 		let end1 = (lineCount = newLines.length)
 
+		if (virtualize != (virtualize = editorProps.virtualize && !editorProps.wordWrap)) {
+			// Rerendering all lines when virtualization is toggled
+			prevLines = []
+			highlighted = new WeakSet()
+			renderedLines = []
+			spacers.forEach(spacer => spacer.remove())
+		}
+		if (virtualize) plainLines = value.replace(/&/g, "&amp;").replace(/</g, "&lt;").split("\n")
+		if (isHydrating && !isHydrated) {
+			isHydrated = true
+			end2 = lines.length - 1
+			// The lines rendered on the server are kept unless the number of lines differs
+			if (end2 == lineCount) prevLines = newLines
+		}
+
+		const getHTML = (index: number) => (virtualize ? plainLines : newLines)[index]
+
 		// Manual dom manipulation is significantly faster here than using the <For> control flow
 		while (newLines[start] == prevLines[start] && start < end1) ++start
 		while (end1 && newLines[--end1] == prevLines[--end2]);
 
-		if (start == end1 && start == end2) lines[start + 1].innerHTML = newLines[start] + "\n"
-		else {
+		if (start == end1 && start == end2) {
+			lines[start + 1].innerHTML =
+				(highlighted.has(lines[start + 1]) ? newLines[start] : getHTML(start)) + "\n"
+		} else {
 			let insertStart = end2 < start ? end2 : start - 1
 			let i = insertStart
 			let newHTML = ""
 
-			while (i < end1) newHTML += `<div class=pce-line aria-hidden=true>${newLines[++i]}\n</div>`
-			for (i = end1 < start ? end1 : start - 1; i < end2; i++) lines[start + 1].remove()
-			if (newHTML) lines[insertStart + 1].insertAdjacentHTML("afterend", newHTML)
+			while (i < end1) newHTML += `<div class=pce-line aria-hidden=true>${getHTML(++i)}\n</div>`
+
+			const fragment = createFragment(newHTML)
+			const added = [...fragment.children] as HTMLDivElement[]
+
+			i = end1 < start ? end1 : start - 1
+			lines.splice(start + 1, Math.max(end2 - i, 0)).forEach(line => line.remove())
+			// Lines outside the viewport are only added to the document by updateVisibleLines
+			if (!virtualize) lines[insertStart + 1].after(fragment)
+
+			const tail = lines.splice(insertStart + 2)
+			for (const line of added) lines.push(line)
+			for (const line of tail) lines.push(line)
 			for (i = insertStart + 1; i < lineCount; ) lines[++i].setAttribute("data-line", i as any)
 			container.style.setProperty("--number-width", Math.ceil(Math.log10(lineCount + 1)) + ".001ch")
 		}
 
+		prevLines = newLines
 		updateSelection(true)
 		if (handleSelecionChange) setTimeout(setTimeout, 0, () => (handleSelecionChange = true))
 
-		prevLines = newLines
+		updateVisibleLines()
 		handleSelecionChange = false
 	})
 
@@ -188,36 +755,266 @@ const Editor = (props: Partial<EditorProps>) => {
 	)
 
 	createRenderEffect(() => {
-		let newValue = editorProps.value
-		if (prevValue != newValue) {
+		const sets = decorationSets()
+		// The overlay mirroring the code is only added once decorations are used
+		if (!sets[0]) return decorationContainer.remove()
+
+		const decorations = sets
+			.flatMap(([decorations]) => decorations())
+			.sort((a, b) => a.from - b.from)
+		const points = [...new Set(decorations.flatMap(({ from, to }) => [from, to]))].sort(
+			(a, b) => a - b,
+		)
+		const nodes: (Node | string)[] = []
+		let active: RangeDecoration[] = []
+		let pos = 0
+
+		tokens()
+		decorationContainer.style.display = decorations[0] ? "" : "none"
+		if (!decorationContainer.parentNode) textarea.after(decorationContainer)
+
+		// Splitting the code at every start and end so overlapping decorations can be combined
+		for (let i = 0, j = 0; i < points.length - 1; i++) {
+			const start = points[i]
+			const end = points[i + 1]
+			while (decorations[j]?.from == start) active.push(decorations[j++])
+			active = active.filter(decoration => decoration.to > start)
+
+			if (active[0]) {
+				const span = document.createElement("span")
+				span.className = active
+					.map(decoration => decoration.class || "")
+					.join(" ")
+					.trim()
+				active.forEach(({ attributes }) => {
+					for (let name in attributes) span.setAttribute(name, attributes[name])
+				})
+				span.textContent = value.slice(start, end)
+				nodes.push(value.slice(pos, start), span)
+				pos = end
+			}
+		}
+
+		decorationContainer.replaceChildren(...nodes, value.slice(pos))
+	})
+
+	createRenderEffect(() => {
+		const worker = editorProps.worker
+		isWaiting = hasPendingRequest = workerFailed = false
+		if (worker) {
+			const listener = ({ data: [id, newTokens] }: MessageEvent<TokenizeResponse>) => {
+				// The worker can be shared by multiple editors
+				if (id == workerRequest) {
+					isWaiting = false
+					if (hasPendingRequest) {
+						// Tokens for outdated code are dropped
+						hasPendingRequest = false
+						requestTokens(worker)
+					} else setTokens(deserializeTokens(newTokens))
+				}
+			}
+			// The code is tokenized on the main thread instead if the worker fails
+			const fallback = () => {
+				workerFailed = true
+				update()
+			}
+			worker.addEventListener("message", listener)
+			worker.addEventListener("messageerror", fallback)
+			worker.addEventListener("error", fallback)
+			onCleanup(() => {
+				worker.removeEventListener("message", listener)
+				worker.removeEventListener("messageerror", fallback)
+				worker.removeEventListener("error", fallback)
+			})
+		}
+		// Tokenizing with the new worker
+		if (!isFirstRender) untrack(update)
+	})
+
+	createRenderEffect(() => {
+		const decorations = lineDecorationSets().flatMap(([decorations]) => decorations())
+
+		tokens()
+		// Lines can be replaced when rendering, so all decorations are reapplied
+		decoratedLines.forEach(([line, classes, names]) => {
+			line.classList.remove(...classes)
+			names.forEach(name => line.removeAttribute(name))
+		})
+		decoratedLines = decorations.flatMap(
+			({ line: index, class: className, attributes, gutterMarker }) => {
+				const line = lines[index]
+				const classes = className?.split(" ").filter(Boolean) || []
+				if (index > lineCount) return []
+				if (gutterMarker != null) attributes = { ...attributes, "data-gutter-marker": gutterMarker }
+				line.classList.add(...classes)
+				for (let name in attributes) line.setAttribute(name, attributes[name])
+				return [[line, classes, Object.keys(attributes || {})]] as typeof decoratedLines
+			},
+		)
+	})
+
+	createRenderEffect(() => {
+		const newDocument = editorProps.document
+		const newValue = newDocument ? untrack(newDocument.value) : editorProps.value
+		if (newDocument != currentDocument) {
+			// The new document's state must be read before it's attached to this editor
+			pendingState = newDocument
+				? newDocument.state
+				: { value: newValue, selections: [[0, 0, "none"]], scroll: [0, 0] }
+			if (currentDocument) detachDocument(currentDocument, editor, editor.getState())
+			if (newDocument) attachDocument(newDocument, editor)
+			currentDocument = newDocument
+			prevValue = undefined
+		}
+		// The document's value is the editor's value after the document is attached
+		if (currentDocument ? newValue != value : prevValue != newValue) {
+			if (untrack(decorationSets)[0] || untrack(lineDecorationSets)[0]) {
+				mapDecorations([diffText(value, newValue)])
+			}
 			focusRelatedTarget()
 			textarea.value = prevValue = newValue
 			textarea.selectionEnd = 0
+			setExtraSelections([])
 		}
 		language = editorProps.language
 		isFirstRender = false
-		update()
+		untrack(update)
+		if (isMounted) applyPendingState()
 	})
 
 	createRenderEffect<Record<string, string>>(
-		prev => style(container, props.style as Record<string, string>, prev)!,
+		prev => web.style(container, props.style as Record<string, string>, prev)!,
 	)
 
+	// The state is applied once mounted since it depends on extensions like editHistory
+	const applyPendingState = () => {
+		const history = editor.extensions.history
+		if (pendingState) {
+			// Stops sharing the previous document's history before it's replaced
+			history?.share({ entries: [], index: 0 })
+			editor.setState(pendingState)
+			if (currentDocument && history) shareHistory(currentDocument, history)
+		}
+		pendingState = undefined
+	}
+
 	onMount(() => {
+		if (isHydrating) insertExtensions()
+		isMounted = true
+		applyPendingState()
 		editorProps.onMount?.(editor)
 	})
 
+	// Resizing also handles the editor getting added to the document
+	const resizeObserver = new ResizeObserver(updateVisibleLines)
+	resizeObserver.observe(container)
+	addEventListener("scroll", updateVisibleLines, { capture: true, passive: true })
+
+	onCleanup(() => {
+		resizeObserver.disconnect()
+		removeEventListener("scroll", updateVisibleLines, true)
+	})
+
+	keymap.add([{ key: "Escape", precedence: "lowest", run: () => textarea.blur() }])
+
 	addTextareaListener(editor, "keydown", e => {
-		keyCommandMap[e.key]?.(e, getInputSelection(), value) && preventDefault(e)
+		if (keyCommandMap[e.key]?.(e, getInputSelection(), value)) preventDefault(e)
+		else keymap.handle(e)
 	})
+	/**
+	 * Predicts the change native input is about to make. Returns `undefined` for input types
+	 * where the affected range isn't known, like composition or spellcheck replacements.
+	 */
+	const getNativeChange = (e: InputEvent): EditorChange | undefined => {
+		const type = e.inputType
+		const range = e.getTargetRanges?.()[0]
+		let [from, to] = getInputSelection()
+
+		// Textareas usually don't expose target ranges, but they're used if they do
+		if (range?.startContainer == textarea && range.endContainer == textarea) {
+			from = range.startOffset
+			to = range.endOffset
+		}
+
+		if (type == "insertLineBreak" || type == "insertParagraph") return { from, to, insert: "\n" }
+		if (type == "insertText" || type == "insertFromPaste") {
+			const insert = e.data ?? e.dataTransfer?.getData("text/plain")
+			return insert == null ? undefined : { from, to, insert }
+		}
+		if (/^delete/.test(type)) {
+			if (from == to) {
+				// Only deleting a single character is predictable without a selection
+				if (type == "deleteContentBackward" && from) from -= isLowSurrogate(from - 1) ? 2 : 1
+				else if (type == "deleteContentForward" && to < value.length)
+					to += isLowSurrogate(to + 1) ? 2 : 1
+				else return
+			}
+			return { from, to, insert: "" }
+		}
+	}
+
+	const isLowSurrogate = (index: number) => index > 0 && /[\udc00-\udfff]/.test(value[index])
+
 	addTextareaListener(editor, "beforeinput", e => {
 		if (
 			editorProps.readOnly ||
 			(e.inputType == "insertText" && inputCommandMap[e.data!]?.(e, getInputSelection(), value))
 		)
-			preventDefault(e)
+			return preventDefault(e)
+
+		// Applies the change filters before native input happens when the change can be predicted
+		const change = !dispatched && untrack(changeFilters)[0] && getNativeChange(e)
+		if (change) {
+			const filtered = filterChanges([change])
+			if (!filtered[0]) preventDefault(e)
+			else if (
+				(filtered[0] != change || filtered[1]) &&
+				applyToText(value, filtered) != applyToText(value, [change])
+			) {
+				preventDefault(e)
+				insertChanges(filtered, mapSelections(getSelections(), filtered))
+			}
+		}
+	})
+	addTextareaListener(editor, "input", e => {
+		const newValue = textarea.value
+		const lengthDiff = dispatched?.reduce(
+			(diff, { from, to, insert }) => diff + insert.length + from - to,
+			0,
+		)
+		// Native input and edits that didn't apply as dispatched are found by diffing
+		let changes =
+			lengthDiff == newValue.length - value.length ? dispatched! : [diffText(value, newValue)]
+		let newSelections: InputSelection[] | undefined
+
+		if (!dispatched && untrack(changeFilters)[0]) {
+			const filtered = filterChanges(changes)
+			const filteredValue = applyToText(value, filtered)
+			// Reverts native input that wasn't predicted by the beforeinput listener and that the
+			// change filters have modified. This is only a fallback since it breaks native undo.
+			if (filteredValue != newValue) {
+				const { scrollLeft, scrollTop } = container
+				const selections = [untrack(selection), ...untrack(extraSelections)]
+				textarea.value = filteredValue
+				container.scrollTo(scrollLeft, scrollTop)
+				if (!filtered[0]) {
+					editor.setSelections(selections)
+					// This listener is added before any extension's, so they never see the input
+					return e.stopImmediatePropagation()
+				}
+				newSelections = mapSelections(selections, filtered)
+				changes = filtered
+			}
+		}
+
+		batch(() => {
+			mapDecorations(changes)
+			updateIncremental()
+		})
+		if (newSelections) editor.setSelections(newSelections)
+		editorProps.onChange?.(changes, editor)
+		if (currentDocument) syncDocument(currentDocument, editor, changes)
 	})
-	addTextareaListener(editor, "input", update)
 	addTextareaListener(editor, "blur", () => {
 		selectionChange = null
 		setFocused(false)
@@ -234,27 +1031,102 @@ const Editor = (props: Partial<EditorProps>) => {
 		preventDefault(e)
 	})
 
-	insert(
-		overlays,
-		createComponent(For, {
-			get each() {
-				return editorProps.extensions
-			},
-			children: (extension: Extension) => extension(editor)!,
-		}),
-		null,
-	)
+	const insertExtensions = () => {
+		insert(
+			overlays,
+			createComponent(For, {
+				get each() {
+					return editorProps.extensions
+				},
+				children: (extension: Extension) => extension(editor)!,
+			}),
+			null,
+		)
+		// Created after the extensions so its cleanup runs first, while the history and
+		// folded ranges can still be stored in the document
+		createRenderEffect(() => {
+			onCleanup(() => {
+				if (currentDocument) detachDocument(currentDocument, editor, editor.getState())
+			})
+		})
+	}
+
+	// Solid expects inserted elements to already exist while hydrating, so the extensions
+	// are added once hydration is finished
+	if (!isHydrating) insertExtensions()
 
 	return container
 }
 
+/**
+ * Renders the editor with highlighted code on the server. Extensions aren't rendered
+ * since they need the DOM.
+ */
+const renderEditor = (props: EditorProps) => {
+	const lines = highlightTokens(tokenizeText(props.value, languages[props.language] || {}))
+		.split("\n")
+		.map((html, i) => `<div class=pce-line aria-hidden=true data-line=${i + 1}>${html}\n</div>`)
+	const style = `tab-size:${props.tabSize || 2};--number-width:${
+		Math.ceil(Math.log10(lines.length + 1)) + ".001ch"
+	}${props.style ? ";" + ssrStyle(props.style as Record<string, string>) : ""}`
+
+	// The first new line in a textarea is ignored by the HTML parser
+	return ssr(
+		[
+			"<div",
+			' class="',
+			'" style="',
+			'"><div class=pce-wrapper><div class=pce-overlays><textarea spellcheck=false autocapitalize=off autocomplete=off>\n',
+			"</textarea></div>",
+			"</div></div>",
+		],
+		ssrHydrationKey(),
+		getClassName(props, false, false),
+		style,
+		escape(props.value),
+		lines.join(""),
+	) as any as HTMLDivElement
+}
+
+const getClassName = (props: EditorProps, hasSelection: boolean, focused: boolean) =>
+	`prism-code-editor language-${props.language}${
+		props.lineNumbers == false ? "" : " show-line-numbers"
+	} pce-${props.wordWrap ? "" : "no"}wrap${props.rtl ? " pce-rtl" : ""} pce-${
+		hasSelection ? "has" : "no"
+	}-selection${focused ? " pce-focus" : ""}${props.readOnly ? " pce-readonly" : ""}`
+
 /** Object storing all language specific behavior. */
 const languageMap: Record<string, Language> = {}
 
+/**
+ * `template` from `solid-js/web`, which isn't exported on the server. Modules creating
+ * templates must import it from here so they can be imported during server-side rendering.
+ */
+const template: typeof web.template = isServer ? () => () => null! : web.template
+
+/**
+ * Same as `getNextElement` from `solid-js/web`. Returns the matching element rendered on
+ * the server while hydrating and otherwise calls the template.
+ */
+const getNextElement = (template: () => Node) => web.getNextElement(template as any)
+
 const editorTemplate = template(
 	"<div><div class=pce-wrapper><div class=pce-overlays><textarea spellcheck=false autocapitalize=off autocomplete=off>",
 )
 
+const decorationTemplate = template(
+	'<div class=pce-decorations style="color:#0000;display:none;contain:strict;padding:0 var(--_pse) 0 var(--padding-left)" aria-hidden=true>',
+)
+
+const spacerTemplate = template("<div class=pce-spacer aria-hidden=true>")
+
+/** Parses the HTML into a document fragment without adding it to the document. */
+const createFragment = (html: string) => {
+	const template = document.createElement("template")
+	template.innerHTML = html
+	return template.content
+}
+
 const preventDefault = (e: Event) => {
 	e.preventDefault()
 	e.stopImmediatePropagation()
@@ -267,10 +1139,230 @@ const addTextareaListener = <T extends keyof HTMLElementEventMap>(
 	options?: boolean | AddEventListenerOptions,
 ) => editor.textarea.addEventListener(type, listener, options)
 
-const userAgent = navigator.userAgent
-const isMac = /Mac|iPhone|iPod|iPad/i.test(navigator.platform)
+const userAgent = isServer ? "" : navigator.userAgent
+const isMac = !isServer && /Mac|iPhone|iPod|iPad/i.test(navigator.platform)
 const isChrome = /Chrome\//.test(userAgent)
 const isWebKit = !isChrome && /AppleWebKit\//.test(userAgent)
+const platform = isMac ? "mac" : /Win/.test(isServer ? "" : navigator.platform) ? "win" : "linux"
+
+const precedences = ["lowest", "low", "default", "high", "highest"]
+const modifierNames = ["Alt", "Ctrl", "Meta", "Shift"]
+const modifierBits: Record<string, number> = {
+	alt: 1,
+	option: 1,
+	ctrl: 2,
+	control: 2,
+	meta: 4,
+	cmd: 4,
+	shift: 8,
+	mod: isMac ? 4 : 2,
+}
+
+/** Names of punctuation keys on US keyboard layouts by `keyCode`. */
+const keyCodeNames: Record<number, string> = {
+	186: ";",
+	187: "=",
+	188: ",",
+	189: "-",
+	190: ".",
+	191: "/",
+	192: "`",
+	219: "[",
+	220: "\\",
+	221: "]",
+	222: "'",
+}
+
+const getKeyName = (key: string) =>
+	key == " " || key.toLowerCase() == "space" ? "Space" : key[1] ? key : key.toLowerCase()
+
+const getModifierString = (code: number) =>
+	modifierNames.reduce((str, name, i) => (code & (1 << i) ? str + name + "-" : str), "")
+
+/**
+ * Normalizes a key string such as `"Mod-Shift-k"` by resolving `Mod` and sorting the
+ * modifiers, so equivalent key strings become identical.
+ * @returns The normalized key string, or an empty string if a modifier is invalid.
+ */
+const normalizeKeys = (keys: string) => {
+	const parts = keys.split(/-(?!$)/)
+	const name = getKeyName(parts.pop()!)
+	let code = 0
+	for (const part of parts) {
+		const bit = modifierBits[part.toLowerCase()]
+		if (!bit) return ""
+		code |= bit
+	}
+	return name && getModifierString(code) + name
+}
+
+/**
+ * Gets the normalized key strings a keyboard event can match. Besides `e.key`, the key's
+ * name on a US layout is used so shortcuts work when modifiers change `e.key`. With Shift
+ * pressed, a character is also matched without the Shift modifier.
+ */
+const getEventKeys = (e: KeyboardEvent) => {
+	const code = +e.altKey | (+e.ctrlKey << 1) | (+e.metaKey << 2) | (+e.shiftKey << 3)
+	const keyCode = e.keyCode
+	const name = getKeyName(e.key)
+	const base =
+		(keyCode > 64 && keyCode < 91) || (keyCode > 47 && keyCode < 58)
+			? String.fromCharCode(keyCode).toLowerCase()
+			: keyCodeNames[keyCode]
+	const modifiers = getModifierString(code)
+	const keys = [modifiers + name]
+	if (base && base != name) keys.push(modifiers + base)
+	if (code & 8 && !name[1]) keys.push(getModifierString(code & 7) + name)
+	return keys
+}
+
+/** Matches characters from right-to-left scripts. */
+const rtlChar = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/
+
+/**
+ * Gets the text nodes containing the code of a line. Elements added to the line by
+ * extensions, such as fold markers, are skipped.
+ */
+const getCodeNodes = (line: HTMLDivElement) => {
+	const walker = document.createTreeWalker(line, 5, {
+		acceptNode: node => (node.nodeName == "DIV" ? 2 : 1),
+	})
+	const nodes: Text[] = []
+	for (let node: Node | null; (node = walker.nextNode()); ) {
+		if (node.nodeType == 3) nodes.push(node as Text)
+	}
+	return nodes
+}
+
+/**
+ * Finds the text node containing the character at the offset in the line and measures
+ * the character.
+ * @returns A tuple containing the text node, the character's offset within the node and
+ * its bounding rect, or `undefined` if the line is too short.
+ */
+const measureChar = (line: HTMLDivElement, offset: number) => {
+	for (const node of getCodeNodes(line)) {
+		if (offset < node.length) {
+			const range = document.createRange()
+			range.setStart(node, offset)
+			range.setEnd(node, offset + 1)
+			return [node, offset, range.getBoundingClientRect()] as const
+		}
+		offset -= node.length
+	}
+}
+
+/**
+ * Sorts the selections after the first one and merges all overlapping selections.
+ * The primary selection stays first in the returned array.
+ */
+const mergeSelections = (selections: InputSelection[]) => {
+	const sorted = selections
+		.map((selection, i) => [...selection, !i] as [...InputSelection, boolean])
+		.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+	const result: [...InputSelection, boolean][] = []
+
+	for (
+		let i = 0, last: [...InputSelection, boolean], current: typeof last;
+		(current = sorted[i++]);
+
+	) {
+		last = result[result.length - 1]
+		if (last && (current[0] < last[1] || current[0] == last[0] || current[1] == last[1])) {
+			if (current[1] > last[1]) last[1] = current[1]
+			if (current[3]) last[2] = current[2]
+			last[3] ||= current[3]
+		} else result.push(current)
+	}
+
+	const primaryIndex = result.findIndex(selection => selection[3])
+	const primary = result.splice(primaryIndex, 1)
+	return primary.concat(result).map(selection => selection.slice(0, 3) as InputSelection)
+}
+
+/**
+ * Maps a position through changes sorted by their position. Positions inside a
+ * replaced range are moved to the start of the replacement. If text is inserted at the
+ * position, it's moved after the insertion unless `before` is true.
+ */
+const mapPosition = (pos: number, changes: EditorChange[], before?: boolean) => {
+	let offset = 0
+	for (let { from, to, insert } of changes) {
+		if (from > pos || (before && from == pos)) break
+		if (pos < to) return from + offset
+		offset += insert.length + from - to
+	}
+	return pos + offset
+}
+
+/** Maps both ends of the selections through changes sorted by their position. */
+const mapSelections = (selections: InputSelection[], changes: EditorChange[]) =>
+	selections.map(
+		([start, end, direction]): InputSelection => [
+			mapPosition(start, changes),
+			mapPosition(end, changes),
+			direction,
+		],
+	)
+
+/** Applies non-overlapping changes sorted by their position to the text. */
+const applyToText = (text: string, changes: EditorChange[]) => {
+	let result = ""
+	let end = 0
+	for (let { from, to, insert } of changes) {
+		result += text.slice(end, from) + insert
+		end = to
+	}
+	return result + text.slice(end)
+}
+
+/**
+ * Maps the ranges through changes sorted by their position. Insertions at the start or end
+ * of a range aren't included in the range, and ranges that become empty are removed.
+ */
+const mapRanges = <T extends { from: number; to: number }>(ranges: T[], changes: EditorChange[]) =>
+	ranges.flatMap(range => {
+		const from = mapPosition(range.from, changes)
+		const to = mapPosition(range.to, changes, true)
+		return from < to ? [{ ...range, from, to }] : []
+	})
+
+/**
+ * Maps line numbers through changes sorted by their position. Lines whose start is removed
+ * by a change are removed. The changes' positions must refer to `oldValue`.
+ */
+const mapLines = <T extends { line: number }>(
+	decorations: T[],
+	changes: EditorChange[],
+	oldValue: string,
+) => {
+	let line = 1
+	let pos = 0
+	const lineChanges = changes.map(({ from, to, insert }) => {
+		const fromLine = (line += numLines(oldValue, pos, from) - 1)
+		const removed = numLines(oldValue, from, (pos = to)) - 1
+		line += removed
+		return [
+			fromLine,
+			line,
+			numLines(insert) - 1 - removed,
+			// Whether text is inserted at the start of the first line
+			from == to && (!from || oldValue[from - 1] == "\n"),
+			oldValue[to - 1] == "\n",
+		] as const
+	})
+
+	return decorations.flatMap(decoration => {
+		const line = decoration.line
+		let newLine = line
+		for (let [fromLine, toLine, offset, insertsBefore, endsLine] of lineChanges) {
+			if (line < fromLine || (line == fromLine && !insertsBefore)) break
+			if (line < toLine || (line == toLine && line > fromLine && !endsLine)) return []
+			newLine += offset
+		}
+		return [{ ...decoration, line: newLine }]
+	})
+}
 
 /**
  * Counts number of lines in the string between `start` and `end`.
@@ -282,17 +1374,32 @@ const numLines = (str: string, start = 0, end = Infinity) => {
 	return count
 }
 
-document.addEventListener("selectionchange", () => selectionChange?.())
+if (!isServer) document.addEventListener("selectionchange", () => selectionChange?.())
 
 let selectionChange: null | (() => void)
+let requestCount = 0
+let prevSelection: InputSelection | 0
 
 export {
 	Editor,
 	addTextareaListener,
 	preventDefault,
 	languageMap,
+	mergeSelections,
 	isMac,
 	isChrome,
 	isWebKit,
 	numLines,
+	mapPosition,
+	mapSelections,
+	applyToText,
+	mapRanges,
+	mapLines,
+	prevSelection,
+	getCodeNodes,
+	measureChar,
+	template,
+	getNextElement,
+	getClassName,
+	normalizeKeys,
 }
@@ -0,0 +1,98 @@
+import { Setter, createSignal, untrack } from "solid-js"
+import type { EditHistory, HistoryState } from "./extensions/commands"
+import { EditorChange, EditorDocument, EditorState, PrismEditor } from "./types"
+
+type DocumentInternals = {
+	setEditors: Setter<PrismEditor[]>
+	state: EditorState
+	/** History shared by the editors displaying the document. */
+	history?: HistoryState
+}
+
+const documents = new WeakMap<EditorDocument, DocumentInternals>()
+
+/**
+ * Creates a document that can be displayed by an {@link Editor} with its `document` prop.
+ * The document keeps its own selections, scroll position, undo history and folded ranges
+ * when the editor switches to a different document, which is useful for tabbed editors.
+ *
+ * Multiple editors can display the same document, for example in a split view. Edits in
+ * one editor are applied to the others right away, while each editor keeps its own
+ * selections and scroll position. The editors share their `editHistory()`, so undo in
+ * either editor reverts the latest edit to the document.
+ * @param value Initial code of the document.
+ * @param language Initial language of the document. Defaults to `"text"`.
+ */
+const createDocument = (value: string, language = "text"): EditorDocument => {
+	const [editors, setEditors] = createSignal<PrismEditor[]>([])
+	const [getLanguage, setLanguage] = createSignal(language)
+	const internals: DocumentInternals = {
+		setEditors,
+		state: { value, selections: [[0, 0, "none"]], scroll: [0, 0] },
+	}
+
+	const document: EditorDocument = {
+		value() {
+			const editor = editors()[0]
+			if (!editor) return internals.state.value
+			editor.tokens()
+			return editor.extensions.folding?.fullCode ?? editor.value
+		},
+		language: getLanguage,
+		setLanguage,
+		editors,
+		get state() {
+			return untrack(editors)[0]?.getState() || internals.state
+		},
+	}
+
+	documents.set(document, internals)
+
+	return document
+}
+
+/** Marks the document as displayed by the editor. */
+const attachDocument = (document: EditorDocument, editor: PrismEditor) => {
+	documents.get(document)!.setEditors(editors => [...editors, editor])
+}
+
+/** Stores the state of the editor that stopped displaying the document. */
+const detachDocument = (document: EditorDocument, editor: PrismEditor, state: EditorState) => {
+	const internals = documents.get(document)!
+	internals.state = state
+	internals.setEditors(editors => editors.filter(e => e != editor))
+}
+
+/**
+ * Makes the history share its entries with the other editors displaying the document. The
+ * document's history is created from the editor's history if there isn't one yet.
+ */
+const shareHistory = (document: EditorDocument, history: EditHistory) => {
+	const internals = documents.get(document)!
+	history.share((internals.history ||= history.getState()))
+}
+
+let isSyncing = false
+
+/**
+ * Applies changes made by an editor displaying the document to the other editors
+ * displaying it. The other editors apply the changes with `applyChanges()`, which syncs
+ * the document again, so those calls are ignored.
+ */
+const syncDocument = (document: EditorDocument, source: PrismEditor, changes: EditorChange[]) => {
+	if (isSyncing) return
+	isSyncing = true
+	try {
+		untrack(document.editors).forEach(editor => {
+			if (editor == source) return
+			// Positions in folded code don't match the changes, so the code is replaced instead
+			if (editor.extensions.folding?.getFoldedLines()[0])
+				editor.setState({ ...editor.getState(), value: source.value })
+			else editor.applyChanges(changes)
+		})
+	} finally {
+		isSyncing = false
+	}
+}
+
+export { createDocument, attachDocument, detachDocument, shareHistory, syncDocument }
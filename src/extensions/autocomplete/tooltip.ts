@@ -1,12 +1,11 @@
-import { Extension, InputSelection } from "../.."
-import { preventDefault } from "../../core"
+import { Extension, InputSelection, KeyBinding } from "../.."
+import { preventDefault, template } from "../../core"
 import { addTooltip } from "../../tooltips"
-import { getLanguage, getLineBefore, getModifierCode, insertText, prevSelection } from "../../utils"
+import { getLanguage, getLineBefore, insertText, prevSelection } from "../../utils"
 import { Cursor, cursorPosition } from "../cursor"
 import { AutoCompleteConfig, Completion, CompletionContext, CompletionDefinition } from "./types"
 import { searchTemplate } from "../search/search"
 import { updateMatched, updateNode } from "./utils"
-import { template } from "solid-js/web"
 import { getStyleValue } from "../../utils/other"
 import { createEffect, createRenderEffect, on, onCleanup, untrack } from "solid-js"
 import { TokenStream } from "../../prism"
@@ -316,67 +315,89 @@ const autoComplete =
 			addListener(editor, "blur", e => {
 				if (config.closeOnBlur != false && !tooltip.contains(e.relatedTarget as Element)) hide()
 			}),
-			addListener(
-				editor,
-				"keydown",
-				e => {
-					const key = e.key
-					const code = getModifierCode(e)
-
-					if (key == " " && code == 2) {
-						if (cursor) startQuery(true)
-						preventDefault(e)
-					} else if (!code && isOpen) {
-						if (/^Arrow[UD]/.test(key)) {
-							move(key[5] == "U")
-							preventDefault(e)
-						} else if (/Tab|Enter/.test(key)) {
-							insertOption(activeIndex)
-							preventDefault(e)
-						} else if (key == "Escape") {
-							hide()
-							preventDefault(e)
-						} else if (key.slice(0, 4) == "Page") {
-							measureRowHeight()
-							let top = tooltip.scrollTop
-							let height = tooltip.clientHeight
-							let newActive: number
-							if (key[4] == "U") {
-								newActive = Math.ceil(top / rowHeight)
-								activeIndex =
-									activeIndex == newActive || newActive - 1 == activeIndex
-										? Math.ceil(Math.max(0, (top - height) / rowHeight + 1))
-										: newActive
-							} else {
-								top += height + 1
-								newActive = Math.ceil(top / rowHeight - 2)
-								activeIndex =
-									activeIndex == newActive || newActive + 1 == activeIndex
-										? Math.ceil(Math.min(numOptions - 1, (top + height) / rowHeight - 3))
-										: newActive
-							}
-							scrollActiveIntoView()
-							updateActive()
-							preventDefault(e)
-						}
-					} else if ((code & 7) == 0 && !isOpen && key == "Tab" && stops) {
-						if (!code) {
-							moveActiveStop(2)
-							if (activeStop + 3 > stops.length) clearStops()
-							preventDefault(e)
-						} else if (activeStop) {
-							moveActiveStop(-2)
-							preventDefault(e)
-						}
-					} else if (!isOpen && !code && key == "Escape") {
-						clearStops()
-						preventDefault(e)
-					}
-				},
-				true,
-			),
 		]
 
+		const movePage = (up: boolean) => {
+			measureRowHeight()
+			let top = tooltip.scrollTop
+			let height = tooltip.clientHeight
+			let newActive: number
+			if (up) {
+				newActive = Math.ceil(top / rowHeight)
+				activeIndex =
+					activeIndex == newActive || newActive - 1 == activeIndex
+						? Math.ceil(Math.max(0, (top - height) / rowHeight + 1))
+						: newActive
+			} else {
+				top += height + 1
+				newActive = Math.ceil(top / rowHeight - 2)
+				activeIndex =
+					activeIndex == newActive || newActive + 1 == activeIndex
+						? Math.ceil(Math.min(numOptions - 1, (top + height) / rowHeight - 3))
+						: newActive
+			}
+			scrollActiveIntoView()
+			updateActive()
+		}
+
+		/** Creates a command that only runs while the tooltip is open. */
+		const whenOpen = (command: () => void) => () => {
+			if (isOpen) {
+				command()
+				return true
+			}
+		}
+
+		const accept = whenOpen(() => insertOption(activeIndex))
+
+		editor.keymap.add(
+			(
+				[
+					{
+						key: "Ctrl-Space",
+						run() {
+							if (cursor) startQuery(true)
+							return true
+						},
+					},
+					{ key: "ArrowUp", run: whenOpen(() => move(true)) },
+					{ key: "ArrowDown", run: whenOpen(move) },
+					{ key: "PageUp", run: whenOpen(() => movePage(true)) },
+					{ key: "PageDown", run: whenOpen(() => movePage(false)) },
+					{ key: "Enter", run: accept },
+					{
+						key: "Tab",
+						run() {
+							if (accept()) return true
+							if (stops) {
+								moveActiveStop(2)
+								if (activeStop + 3 > stops.length) clearStops()
+								return true
+							}
+						},
+					},
+					{
+						key: "Shift-Tab",
+						run() {
+							if (!isOpen && stops && activeStop) {
+								moveActiveStop(-2)
+								return true
+							}
+						},
+					},
+					{
+						key: "Escape",
+						run() {
+							if (isOpen) hide()
+							else if (stops) clearStops()
+							else return
+							return true
+						},
+					},
+				] as KeyBinding[]
+			).map(binding => ({ ...binding, precedence: "high" })),
+		)
+
 		tabStopsContainer.className = "pce-tabstops"
 		textarea.setAttribute("aria-controls", id)
 		textarea.setAttribute("aria-autocomplete", "list")
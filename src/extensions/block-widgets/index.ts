@@ -0,0 +1,244 @@
+/** @module block-widgets */
+
+import { JSX, createEffect, createRoot, createSignal, getOwner, onCleanup, untrack } from "solid-js"
+import { insert } from "solid-js/web"
+import { numLines, preventDefault, template } from "../../core"
+import { Extension } from "../../types"
+import { addListener } from "../../utils/local"
+
+const containerTemplate = template("<div class=pce-block-widgets>")
+const widgetTemplate = template("<div class=pce-block-widget>")
+
+export type BlockWidget = {
+	/** Line number of the line the widget is displayed below. */
+	line: number
+	/** Whether the widget is displayed above its line instead. @default false */
+	above?: boolean
+	/**
+	 * Function rendering the content of the widget. It's called once when the widget is
+	 * first displayed, and the content is kept until the widget is removed.
+	 */
+	render(): JSX.Element
+}
+
+export interface BlockWidgets {
+	/**
+	 * Reactive accessor for the widgets. Their lines are updated when lines are added or
+	 * removed, and widgets on removed lines are removed. The returned widgets are copies of
+	 * the added widgets with their current line.
+	 */
+	widgets(): BlockWidget[]
+	/**
+	 * Adds widgets to the editor. If called inside a reactive scope, the widgets are
+	 * removed when the scope is disposed.
+	 * @returns Function removing the widgets.
+	 */
+	add(widgets: BlockWidget[]): () => void
+	/**
+	 * Reactive accessor for the vertical space in pixels the widgets take up above a line.
+	 * @param line Line number of the line.
+	 */
+	spaceAbove(line: number): number
+}
+
+/** Widget along with its current line. The widget is kept when the decoration is mapped. */
+type WidgetDecoration = { line: number; widget: BlockWidget }
+
+/** Container of the widgets on one side of a line along with the line number. */
+type Container = [container: HTMLDivElement, line: number, above: boolean]
+
+/**
+ * Extension displaying Solid components between lines of code, such as code lenses above
+ * functions, review comments or image previews. Widgets are displayed below their line,
+ * or above it if `above` is set, and the lines get margins with the measured height of the
+ * widgets. Widgets on the same side of a line are stacked in the order they were added.
+ * Line numbers are unaffected, and widgets are kept on their line through edits like
+ * line decorations.
+ *
+ * Since the editor's `textarea` can't have space between its lines, its text is moved
+ * down by the space above the line with the cursor. This keeps the caret and a selection
+ * within the lines between two widgets aligned, while the native selection highlight of
+ * a selection spanning a widget is only aligned around the cursor. Clicking a line in
+ * another part of the code moves the `textarea` before placing the cursor. The space is
+ * accounted for by `indentGuides()`, but overlays laying out the code as a whole, such as
+ * decorations and search matches, are only aligned above the first widget. Widgets aren't
+ * supported with the `virtualize` prop, since it relies on every line having the same
+ * height.
+ *
+ * Once added, the extension can be accessed from `editor.extensions.blockWidgets`.
+ *
+ * Requires styling from `solid-prism-editor/block-widgets.css`.
+ */
+const blockWidgets = (): Extension => editor => {
+	const set = editor.addLineDecorations<WidgetDecoration>([])
+	const elements = new Map<BlockWidget, [HTMLDivElement, () => void]>()
+	const textarea = editor.textarea
+	const [offsets, setOffsets] = createSignal<number[]>([])
+	let containers: Container[] = []
+	let spacedLines: HTMLDivElement[] = []
+
+	const getElement = (widget: BlockWidget) => {
+		let entry = elements.get(widget)
+		if (!entry) {
+			entry = createRoot(dispose => {
+				const element = widgetTemplate() as HTMLDivElement
+				insert(element, widget.render())
+				return [element, dispose] as [HTMLDivElement, () => void]
+			})
+			elements.set(widget, entry)
+		}
+		return entry[0]
+	}
+
+	const removeElements = (keep: BlockWidget[]) => {
+		elements.forEach(([element, dispose], widget) => {
+			if (!keep.includes(widget)) {
+				dispose()
+				element.remove()
+				elements.delete(widget)
+			}
+		})
+	}
+
+	const spaceAbove = (line: number) => {
+		const list = offsets()
+		return list[Math.min(line, list.length - 1)] || 0
+	}
+
+	/** Gives the lines margins with the height of the widgets between them. */
+	const measure = () => {
+		const space: number[] = []
+		const margins = new Map<HTMLDivElement, [top: number, bottom: number]>()
+		const newOffsets = [0]
+
+		for (const [container, line, above] of containers) {
+			const index = above ? line - 1 : line
+			space[index] = (space[index] || 0) + container.offsetHeight
+		}
+
+		// Margins of adjacent lines would collapse, so only the first line gets a top margin
+		space.forEach((height, index) => {
+			const line = editor.lines[index || 1]
+			const margin = margins.get(line) || [0, 0]
+			margin[index ? 1 : 0] = height
+			margins.set(line, margin)
+		})
+
+		spacedLines.forEach(line => {
+			if (!margins.has(line)) line.style.marginTop = line.style.marginBottom = ""
+		})
+		margins.forEach(([top, bottom], line) => {
+			line.style.marginTop = top ? top + "px" : ""
+			line.style.marginBottom = bottom ? bottom + "px" : ""
+		})
+		spacedLines = [...margins.keys()]
+
+		for (let i = 1, l = numLines(editor.value); i <= l; i++) {
+			newOffsets[i] = newOffsets[i - 1] + (space[i - 1] || 0)
+		}
+		setOffsets(newOffsets)
+	}
+
+	const observer = window.ResizeObserver && new ResizeObserver(measure)
+
+	createEffect(() => {
+		const decorations = set.decorations()
+		const lineWidgets = new Map<number, HTMLDivElement[]>()
+		// Lines can be replaced when rendering, so the widgets are added again
+		editor.tokens()
+		const newContainers: Container[] = []
+
+		untrack(() => {
+			removeElements(decorations.map(decoration => decoration.widget))
+			for (const { line, widget } of decorations) {
+				const key = widget.above ? -line : line
+				if (lineWidgets.has(key)) lineWidgets.get(key)!.push(getElement(widget))
+				else lineWidgets.set(key, [getElement(widget)])
+			}
+		})
+
+		lineWidgets.forEach((widgetElements, key) => {
+			const above = key < 0
+			const line = Math.abs(key)
+			const lineElement = editor.lines[line]
+			const className = above ? "pce-block-widgets-above" : "pce-block-widgets-below"
+			let container = lineElement.querySelector<HTMLDivElement>(`:scope>.${className}`)
+			if (!container) {
+				container = containerTemplate() as HTMLDivElement
+				container.classList.add(className)
+				lineElement.append(container)
+				observer?.observe(container)
+			}
+			// Moving elements that are already in place would reset things like their focus
+			if (
+				container.children.length != widgetElements.length ||
+				widgetElements.some((widget, i) => container!.children[i] != widget)
+			) {
+				container.replaceChildren(...widgetElements)
+			}
+			newContainers.push([container, line, above])
+		})
+
+		containers.forEach(([container]) => {
+			if (!newContainers.some(entry => entry[0] == container)) {
+				observer?.unobserve(container)
+				container.remove()
+			}
+		})
+		containers = newContainers
+		untrack(measure)
+	})
+
+	createEffect(() => {
+		editor.selection()
+		const space = spaceAbove(editor.activeLine)
+		textarea.style.paddingTop = space ? space + "px" : ""
+	})
+
+	const cleanUp = addListener(editor, "mousedown", e => {
+		const pos = editor.posAtCoords(e.clientX, e.clientY)
+		const line = numLines(editor.value, 0, pos)
+		// The textarea's text is only aligned with the lines around the cursor
+		if (!e.button && untrack(() => spaceAbove(line) != spaceAbove(editor.activeLine))) {
+			const [start, end, direction] = untrack(editor.selection)
+			const anchor = e.shiftKey ? (direction == "backward" ? end : start) : pos
+			editor.setSelection(
+				Math.min(anchor, pos),
+				Math.max(anchor, pos),
+				pos < anchor ? "backward" : "forward",
+			)
+			textarea.focus()
+			preventDefault(e)
+		}
+	})
+
+	editor.extensions.blockWidgets = {
+		widgets: () => set.decorations().map(({ line, widget }) => ({ ...widget, line })),
+		add(widgets) {
+			const remove = () => {
+				set.set(untrack(set.decorations).filter(({ widget }) => !widgets.includes(widget)))
+			}
+
+			set.set([
+				...untrack(set.decorations),
+				...widgets.map(widget => ({ line: widget.line, widget })),
+			])
+			if (getOwner()) onCleanup(remove)
+			return remove
+		},
+		spaceAbove,
+	}
+
+	onCleanup(() => {
+		cleanUp()
+		observer?.disconnect()
+		removeElements([])
+		containers.forEach(([container]) => container.remove())
+		containers = []
+		measure()
+		textarea.style.paddingTop = ""
+		delete editor.extensions.blockWidgets
+	})
+}
+
+export { blockWidgets }
@@ -0,0 +1,274 @@
+/** @module breadcrumbs */
+
+import { createEffect, createSignal, onCleanup, onMount, untrack } from "solid-js"
+import { preventDefault, template } from "../../core"
+import { Token, TokenStream } from "../../prism"
+import { Extension, PrismEditor } from "../../types"
+import { getStyleValue } from "../../utils/other"
+import { Scope, trackScopes } from "../../utils/local"
+import { BracketMatcher } from "../match-brackets"
+import { TagMatcher } from "../match-tags"
+
+const barTemplate = template(
+	"<div style=display:flex;align-items:flex-start><div class=pce-breadcrumbs><div class=pce-crumbs></div><ul class=pce-crumbs-list role=listbox style=display:none>",
+)
+const separatorTemplate = template(
+	'<button class=pce-crumb-separator aria-label="Show symbols" aria-haspopup=listbox>›',
+)
+const crumbTemplate = template("<button class=pce-crumb> ")
+const rowTemplate = template("<li class=pce-crumbs-row role=option> ")
+
+const declarationKeywords = /^(?:class|interface|enum|struct|trait|namespace|module|impl|object)$/
+const functionModifiers =
+	/^(?:function|def|fn|func|fun|sub|async|static|public|private|protected|export|default|get|set|override|abstract)$/
+const controlKeywords =
+	/^(?:if|else|elif|for|foreach|while|do|switch|try|catch|except|finally|with|match|loop|unless|until)$/
+
+export type Crumb = {
+	/** Text displayed for the crumb, for example `class Foo` or `div.card`. */
+	label: string
+	/** Start of the crumb's scope. */
+	from: number
+	/** End of the crumb's scope. */
+	to: number
+}
+
+export interface Breadcrumbs {
+	/** Reactive accessor for the path of scopes enclosing the cursor, outermost first. */
+	crumbs(): Crumb[]
+}
+
+/** Start, end and type followed by alias of a token. */
+type TokenInfo = [start: number, end: number, type: string]
+
+const flattenTokens = (tokens: TokenStream, position: number, result: TokenInfo[]) => {
+	for (let i = 0, token: string | Token; (token = tokens[i++]); ) {
+		const length = token.length
+		if (typeof token != "string") {
+			result.push([position, position + length, `${token.type} ${token.alias || ""}`])
+			if (Array.isArray(token.content)) flattenTokens(token.content, position, result)
+		}
+		position += length
+	}
+	return result
+}
+
+/**
+ * Extension displaying a bar at the top of the editor with the path of scopes enclosing the
+ * cursor, for example `class Foo › method bar › if`, `html › body › div.card` in markup or
+ * `spec › paths › /users` in YAML and JSON.
+ *
+ * The scopes are found with the {@link BracketMatcher} and {@link TagMatcher}, so the
+ * `matchBrackets()` and `matchTags()` extensions should be added as well. In Python and
+ * YAML, indentation is used to find scopes. The labels of the scopes are based on the
+ * tokens before the opening bracket or on the indented line. Scopes without a label, such
+ * as objects in arrays, are left out.
+ *
+ * Clicking a crumb moves the cursor to the start of its scope, and Shift-clicking selects
+ * the scope. Clicking the separator before a crumb opens a list of the symbols next to it.
+ *
+ * Once added, the extension can be accessed from `editor.extensions.breadcrumbs`.
+ *
+ * Requires styling from `solid-prism-editor/breadcrumbs.css`.
+ */
+const breadcrumbs = (): Extension => editor => {
+	const { container, wrapper } = editor
+	const element = barTemplate() as HTMLDivElement
+	const bar = element.firstChild as HTMLDivElement
+	const crumbsEl = bar.firstChild as HTMLDivElement
+	const list = crumbsEl.nextSibling as HTMLUListElement
+	const [crumbs, setCrumbs] = createSignal<Crumb[]>([])
+	const [scopes, setScopes] = createSignal<Scope[]>([])
+	let tokenInfos: TokenInfo[] = []
+	let chain: Scope[] = []
+	let marginTop: number | undefined
+	let openIndex = -1
+
+	/** Gets the index of the first token starting at or after the position. */
+	const findToken = (pos: number) => {
+		let low = 0
+		let high = tokenInfos.length
+		while (low < high) {
+			const mid = (low + high) >> 1
+			if (tokenInfos[mid][0] < pos) low = mid + 1
+			else high = mid
+		}
+		return low
+	}
+
+	/**
+	 * Gets the label of the scope from the tokens in its header, or undefined if the scope
+	 * has no name. Functions inside classes are labeled as methods.
+	 */
+	const getLabel = ([from, _to, headerEnd, tag]: Scope, parent?: string) => {
+		const value = editor.value
+		if (tag != null) {
+			const [, start, end, name] = editor.extensions.matchTags!.tags[tag]
+			const text = value.slice(start, end)
+			const id = text.match(/\sid\s*=\s*["']?([^\s"'>]+)/)
+			const className = text.match(/\sclass\s*=\s*["']?([^\s"'>]+)/)
+			return name + (id ? "#" + id[1] : "") + (className ? "." + className[1] : "")
+		}
+
+		const header = value.slice(from, headerEnd)
+		let keyword = ""
+		let firstKeyword = ""
+		let i = findToken(from)
+		let info: TokenInfo
+		while ((info = tokenInfos[i++]) && info[0] < headerEnd) {
+			const [start, end, type] = info
+			const text = value.slice(Math.max(start, from), Math.min(end, headerEnd)).trim()
+			if (/^(?:key|property|literal-property) /.test(type))
+				return text.replace(/^(["'])(.*)\1$/, "$2")
+			if (/^(?:selector|atrule) /.test(type)) return text.replace(/\s+/g, " ")
+			if (/^function-variable /.test(type)) return "function " + text
+			if (/^keyword /.test(type)) {
+				firstKeyword ||= text
+				keyword = text
+			} else if (/^class-name /.test(type) && declarationKeywords.test(keyword)) {
+				return keyword + " " + text
+			} else if (
+				/^function /.test(type) &&
+				(keyword ? functionModifiers.test(keyword) : /\)[^()]*$/.test(header))
+			) {
+				return (parent?.slice(0, 6) == "class " ? "method " : "function ") + text
+			}
+		}
+
+		if (controlKeywords.test(firstKeyword)) return firstKeyword
+		return header.match(/([\w$.-]+)\s*[=:]\s*$/)?.[1]
+	}
+
+	/** Moves the cursor to the start of the scope, or selects it. */
+	const jump = (from: number, to: number, select?: boolean) => {
+		closeList()
+		editor.setSelection(from, select ? to : from)
+		editor.textarea.focus()
+		editor.extensions.cursor?.scrollIntoView()
+	}
+
+	const closeList = () => {
+		if (openIndex + 1) {
+			list.style.display = "none"
+			crumbsEl.children[openIndex * 2]?.removeAttribute("aria-expanded")
+			document.removeEventListener("pointerdown", pointerDown)
+			openIndex = -1
+		}
+	}
+
+	const pointerDown = (e: PointerEvent) => {
+		if (!bar.contains(e.target as Node)) closeList()
+	}
+
+	/** Opens the list of the symbols next to the crumb with the index. */
+	const openList = (index: number) => {
+		const parent = chain[index - 1]
+		const current = chain[index]
+		const parentLabel = untrack(crumbs)[index - 1]?.label
+		const [start, end] = parent || [0, Infinity]
+		const stack: number[] = []
+		const rows: HTMLLIElement[] = []
+
+		for (const scope of untrack(scopes)) {
+			if (scope == parent || scope[0] < start || scope[1] > end) continue
+			while (stack[0] != null && stack[stack.length - 1] < scope[0]) stack.pop()
+			const label = getLabel(scope, parentLabel)
+			if (label == null) continue
+			if (!stack[0]) {
+				const row = rowTemplate() as HTMLLIElement
+				;(row.firstChild as Text).data = label
+				row.onclick = () => jump(scope[0], scope[1])
+				if (scope == current) row.setAttribute("aria-selected", "true")
+				rows.push(row)
+			}
+			stack.push(scope[1])
+		}
+
+		if (rows[0]) {
+			const separator = crumbsEl.children[index * 2] as HTMLElement
+			closeList()
+			openIndex = index
+			list.replaceChildren(...rows)
+			list.style.display = ""
+			list.style.left = separator.offsetLeft - crumbsEl.scrollLeft + "px"
+			separator.setAttribute("aria-expanded", "true")
+			document.addEventListener("pointerdown", pointerDown)
+			list.querySelector("[aria-selected]")?.scrollIntoView({ block: "nearest" })
+		}
+	}
+
+	const resize = () => {
+		if (marginTop == null) marginTop = getStyleValue(wrapper, "marginTop")
+		const newMargin = marginTop + bar.offsetHeight
+		wrapper.style.marginTop = newMargin + "px"
+		bar.style.marginTop = -newMargin + "px"
+		bar.style.width = container.clientWidth + "px"
+	}
+
+	const observer = window.ResizeObserver && new ResizeObserver(resize)
+
+	trackScopes(editor, scopes => {
+		tokenInfos = flattenTokens(editor.tokens(), 0, [])
+		setScopes(scopes)
+	})
+
+	createEffect(() => {
+		const [start, end, dir] = editor.selection()
+		const pos = dir == "backward" ? start : end
+		const result: Crumb[] = []
+		chain = []
+		for (const scope of scopes()) {
+			const [from, to] = scope
+			if (from > pos) break
+			if (to < pos || to > (chain[chain.length - 1]?.[1] ?? to)) continue
+			const label = getLabel(scope, result[result.length - 1]?.label)
+			if (label != null) {
+				chain.push(scope)
+				result.push({ label, from, to })
+			}
+		}
+		setCrumbs(result)
+	})
+
+	const createSeparator = (index: number) => {
+		const separator = separatorTemplate() as HTMLButtonElement
+		separator.onclick = () => (openIndex == index ? closeList() : openList(index))
+		return separator
+	}
+
+	createEffect(() => {
+		const elements: HTMLElement[] = []
+		closeList()
+		crumbs().forEach(({ label, from, to }, i) => {
+			const crumb = crumbTemplate() as HTMLButtonElement
+			;(crumb.firstChild as Text).data = label
+			crumb.onclick = e => jump(from, to, e.shiftKey)
+			elements.push(createSeparator(i), crumb)
+		})
+		// The top level symbols can be listed without any crumbs
+		crumbsEl.replaceChildren(...(elements[0] ? elements : [createSeparator(0)]))
+		crumbsEl.scrollLeft = crumbsEl.scrollWidth
+	})
+
+	// Keeping the focus on the textarea
+	bar.onmousedown = preventDefault
+
+	onMount(() => {
+		resize()
+		observer?.observe(container)
+		observer?.observe(bar)
+	})
+
+	editor.extensions.breadcrumbs = { crumbs }
+
+	onCleanup(() => {
+		closeList()
+		observer?.disconnect()
+		if (marginTop != null) wrapper.style.marginTop = ""
+		delete editor.extensions.breadcrumbs
+	})
+
+	return element
+}
+
+export { breadcrumbs }
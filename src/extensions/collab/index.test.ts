@@ -0,0 +1,122 @@
+/** @vitest-environment jsdom */
+
+import { describe, expect, test } from "vitest"
+import { createRoot } from "solid-js"
+import { CollabPeer, MemoryHub, collab, createMemoryHub } from "."
+import { Editor } from "../../core"
+import { EditorChange, PrismEditor } from "../../types"
+
+globalThis.ResizeObserver ||= class {
+	observe() {}
+	unobserve() {}
+	disconnect() {}
+}
+Element.prototype.scrollTo ||= () => {}
+
+// jsdom doesn't implement execCommand. Its user agent makes the editor insert HTML like in
+// Safari, which ignores the new line the editor adds at the end
+document.execCommand = (command, _, html = "") => {
+	const textarea = document.activeElement as HTMLTextAreaElement
+	const text =
+		command == "delete" ? "" : html.slice(0, -1).replace(/&lt;/g, "<").replace(/&amp;/g, "&")
+	textarea.setRangeText(text, textarea.selectionStart, textarea.selectionEnd, "end")
+	textarea.dispatchEvent(new InputEvent("input", { inputType: "insertText", data: text }))
+	return true
+}
+
+describe("createMemoryHub", () => {
+	test("delivers changes to the other providers", () => {
+		const hub = createMemoryHub("abc")
+		const received: EditorChange[][] = []
+		const sender = hub.join("a", "red")
+		const receiver = hub.join("b", "blue")
+
+		sender.connect(
+			changes => received.push(changes),
+			() => {},
+		)
+		receiver.connect(
+			changes => received.push(changes),
+			() => {},
+		)
+		sender.sendChanges([{ from: 1, to: 2, insert: "x" }])
+
+		expect(hub.value).toBe("axc")
+		expect(receiver.getValue()).toBe("axc")
+		expect(received).toEqual([[{ from: 1, to: 2, insert: "x" }]])
+	})
+
+	test("sends the other peers with their mapped selections", () => {
+		const hub = createMemoryHub("abc")
+		const peers: CollabPeer[][] = []
+		const first = hub.join("a", "red")
+		const second = hub.join("b", "blue")
+
+		first.connect(
+			() => {},
+			list => peers.push(list),
+		)
+		const disconnect = second.connect(
+			() => {},
+			() => {},
+		)
+		expect(peers.pop()!.map(peer => peer.name)).toEqual(["b"])
+
+		second.sendSelections([[1, 2, "forward"]])
+		first.sendChanges([{ from: 0, to: 0, insert: "xy" }])
+		expect(peers.pop()![0].selections).toEqual([[3, 4, "forward"]])
+
+		disconnect()
+		expect(peers.pop()).toEqual([])
+	})
+})
+
+describe("collab", () => {
+	const createEditor = (hub: MemoryHub, name: string) => {
+		let editor!: PrismEditor
+		createRoot(() =>
+			Editor({
+				value: "",
+				extensions: [collab(hub.join(name, "red"))],
+				onMount: e => (editor = e),
+			}),
+		)
+		document.body.append(editor.container)
+		return editor
+	}
+
+	test("replaces the code with the shared document when connecting", () => {
+		const hub = createMemoryHub("shared")
+		const editor = createEditor(hub, "a")
+
+		expect(editor.value).toBe("shared")
+		expect(editor.textarea.value).toBe("shared")
+	})
+
+	test("makes two editors converge", () => {
+		const hub = createMemoryHub("let a = 1\n")
+		const first = createEditor(hub, "a")
+		const second = createEditor(hub, "b")
+
+		first.dispatch([{ from: 0, to: 3, insert: "const" }])
+		second.dispatch([{ from: second.value.length, to: second.value.length, insert: "a++\n" }])
+		first.dispatch([{ from: 10, to: 11, insert: "2" }])
+		second.dispatch([{ from: 0, to: 0, insert: "// counter\n" }])
+
+		expect(hub.value).toBe("// counter\nconst a = 2\na++\n")
+		expect(first.value).toBe(hub.value)
+		expect(second.value).toBe(hub.value)
+	})
+
+	test("keeps the local selection when applying remote changes", () => {
+		const hub = createMemoryHub("abc")
+		const first = createEditor(hub, "a")
+		const second = createEditor(hub, "b")
+
+		second.setSelections([[2, 3, "forward"]])
+		first.dispatch([{ from: 0, to: 0, insert: "xy" }])
+
+		expect(second.value).toBe("xyabc")
+		expect(second.getSelections()).toEqual([[4, 5, "forward"]])
+	})
+})
@@ -0,0 +1,204 @@
+/** @module collab */
+
+import { createEffect, createSignal, on, onCleanup } from "solid-js"
+import { applyToText, mapSelections, template } from "../../core"
+import { diffText } from "../../prism/incremental"
+import { EditorChange, Extension, InputSelection } from "../../types"
+import { addListener } from "../../utils/local"
+import { searchTemplate } from "../search/search"
+
+const containerTemplate = template("<div class=pce-remote aria-hidden=true>")
+const selectionTemplate = template("<span> ")
+
+/** A remote user editing the same document. */
+export type CollabPeer = {
+	/** Identifier that's unique among the connected users. */
+	id: string | number
+	/** Name displayed next to the user's caret. */
+	name: string
+	/** CSS color of the user's caret and selections. */
+	color: string
+	/** The user's selections where the first selection is the primary selection. */
+	selections: InputSelection[]
+}
+
+/**
+ * Connection between an editor and a shared document. Implement this interface to connect
+ * the editor to a CRDT such as Yjs or to an OT server.
+ */
+export interface CollabProvider {
+	/** Gets the current code of the shared document. */
+	getValue(): string
+	/**
+	 * Sends changes made locally to the shared document.
+	 * @param changes Changes sorted by their position. Their positions refer to the code
+	 * before the changes were applied.
+	 */
+	sendChanges(changes: EditorChange[]): void
+	/** Sends the local user's selections. */
+	sendSelections(selections: InputSelection[]): void
+	/**
+	 * Starts listening for remote changes and remote users.
+	 * @param onChanges Must be called with changes made by other users. Their positions
+	 * must refer to the code including all changes sent or received before.
+	 * @param onPeers Must be called with the other connected users whenever they or their
+	 * selections change.
+	 * @returns Function that disconnects the provider.
+	 */
+	connect(
+		onChanges: (changes: EditorChange[]) => void,
+		onPeers: (peers: CollabPeer[]) => void,
+	): () => void
+}
+
+/** In-memory stand-in for a collaboration server. Useful for tests and demos. */
+export interface MemoryHub {
+	/** The current code of the shared document. */
+	readonly value: string
+	/**
+	 * Creates a provider for a new user. Changes and selections are delivered to the other
+	 * users synchronously.
+	 * @param name Name displayed next to the user's caret.
+	 * @param color CSS color of the user's caret and selections.
+	 */
+	join(name: string, color: string): CollabProvider
+}
+
+/**
+ * Creates an in-memory hub that providers for multiple editors can connect to. Each
+ * provider is created with {@link MemoryHub.join}.
+ * @param value Initial code of the shared document.
+ */
+const createMemoryHub = (value = ""): MemoryHub => {
+	const clients = new Map<CollabPeer, Parameters<CollabProvider["connect"]>>()
+	let count = 0
+
+	const broadcastPeers = (source?: CollabPeer) => {
+		clients.forEach(([, onPeers], peer) => {
+			if (peer != source) onPeers([...clients.keys()].filter(other => other != peer))
+		})
+	}
+
+	return {
+		get value() {
+			return value
+		},
+		join(name, color) {
+			const peer: CollabPeer = { id: count++, name, color, selections: [[0, 0, "none"]] }
+
+			return {
+				getValue: () => value,
+				sendChanges(changes) {
+					value = applyToText(value, changes)
+					clients.forEach((listeners, other) => {
+						other.selections = mapSelections(other.selections, changes)
+						if (other != peer) listeners[0](changes)
+					})
+					broadcastPeers()
+				},
+				sendSelections(selections) {
+					peer.selections = selections
+					broadcastPeers(peer)
+				},
+				connect(onChanges, onPeers) {
+					clients.set(peer, [onChanges, onPeers])
+					broadcastPeers()
+					return () => {
+						clients.delete(peer)
+						broadcastPeers()
+					}
+				},
+			}
+		},
+	}
+}
+
+/**
+ * Extension binding the editor to a shared document through a provider. Local edits and
+ * selections are sent to the provider, and remote changes are applied with
+ * `editor.applyChanges()`. This keeps the local selections and doesn't add entries to the
+ * `editHistory()` extension. Instead, the remote changes are rebased into the history, so
+ * undo only reverts local edits.
+ *
+ * The carets and selections of the remote users are displayed with their names and colors.
+ * Requires styling from `solid-prism-editor/collab.css`.
+ *
+ * When connecting, the editor's code is replaced with the shared document's code.
+ * @param provider Connection to the shared document. Use {@link createMemoryHub} for an
+ * in-memory stand-in for a server.
+ */
+const collab =
+	(provider: CollabProvider): Extension =>
+	editor => {
+		const container = containerTemplate() as HTMLDivElement
+		const overlays = container.children as HTMLCollectionOf<HTMLDivElement>
+		const [peers, setPeers] = createSignal<CollabPeer[]>([])
+		let value = editor.value
+
+		const applyRemote = (changes: EditorChange[]) => {
+			const sorted = changes.slice().sort((a, b) => a.from - b.from)
+			editor.extensions.history?.rebase(sorted)
+			editor.applyChanges(sorted)
+			value = editor.value
+		}
+
+		const initial = provider.getValue()
+		if (initial != value) applyRemote([diffText(value, initial)])
+
+		const disconnect = provider.connect(applyRemote, setPeers)
+
+		const cleanUp = addListener(editor, "input", () => {
+			const change = diffText(value, (value = editor.value))
+			const changes = [change]
+			setPeers(peers =>
+				peers.map(peer => ({ ...peer, selections: mapSelections(peer.selections, changes) })),
+			)
+			provider.sendChanges(changes)
+		})
+
+		createEffect(on(editor.selections, selections => provider.sendSelections(selections)))
+
+		createEffect(() => {
+			const list = peers()
+			const code = editor.tokens() && editor.value
+
+			list.forEach((peer, i) => {
+				const overlay = overlays[i] || container.appendChild(searchTemplate() as HTMLDivElement)
+				const nodes = overlay.childNodes
+				const sorted = peer.selections
+					.map((selection, index) => [...selection, index] as const)
+					.sort((a, b) => a[0] - b[0])
+				let j = 0
+				let pos = 0
+
+				overlay.style.display = ""
+				overlay.style.setProperty("--pce-remote-color", peer.color)
+				for (let [start, end, dir, index] of sorted) {
+					// Overlapping selections can't be displayed in the same overlay
+					if (start < pos || start > code.length) continue
+					let span = nodes[j + 1] as HTMLSpanElement
+					if (!span) overlay.append((span = selectionTemplate() as HTMLSpanElement), "")
+					;(nodes[j] as Text).data = code.slice(pos, start)
+					;(span.firstChild as Text).data = code.slice(start, (pos = Math.min(end, code.length)))
+					span.className = `pce-remote-selection pce-remote-caret-${
+						dir == "backward" ? "start" : "end"
+					}`
+					if (index) span.removeAttribute("data-name")
+					else span.setAttribute("data-name", peer.name)
+					j += 2
+				}
+				;(nodes[j] as Text).data = code.slice(pos)
+				while (nodes[j + 1]) nodes[j + 1].remove()
+			})
+			while (overlays[list.length]) overlays[list.length].remove()
+		})
+
+		onCleanup(() => {
+			cleanUp()
+			disconnect()
+		})
+
+		return container
+	}
+
+export { collab, createMemoryHub }
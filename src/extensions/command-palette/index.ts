@@ -0,0 +1,207 @@
+/** @module command-palette */
+
+import { onCleanup } from "solid-js"
+import { isMac, preventDefault, template } from "../../core"
+import { Command, Extension } from "../../types"
+import { fuzzyFilter } from "../autocomplete/filter"
+import { CompletionFilter } from "../autocomplete/types"
+import { updateMatched } from "../autocomplete/utils"
+
+let count = 0
+
+const paletteTemplate = template(
+	'<div style=display:none;align-items:flex-start;justify-content:center><div class=pce-palette><input class=pce-palette-input autocorrect=off autocapitalize=off spellcheck=false placeholder="Type a command" aria-label=Command role=combobox aria-autocomplete=list aria-expanded=true><ul class=pce-palette-list role=listbox>',
+)
+const rowTemplate = template(
+	"<li class=pce-palette-row role=option><div> </div><kbd class=pce-palette-keys>",
+)
+
+const macModifiers: [string, string][] = [
+	["Ctrl", "⌃"],
+	["Alt", "⌥"],
+	["Shift", "⇧"],
+	["Meta", "⌘"],
+]
+
+/**
+ * Formats a normalized key string for display, for example `"Ctrl+Shift+K"`, or `"⇧⌘K"`
+ * on MacOS.
+ * @param keys Key string normalized by `normalizeKeys`.
+ */
+const formatKeys = (keys: string) => {
+	const parts = keys.split(/-(?!$)/)
+	const key = parts.pop()!
+	const name = key[1] ? key : key.toUpperCase()
+	return isMac
+		? macModifiers.reduce(
+				(str, [modifier, symbol]) => (parts.includes(modifier) ? str + symbol : str),
+				"",
+		  ) + name
+		: [...parts, name].join("+")
+}
+
+export interface CommandPalette {
+	/** Opens the command palette and focuses its input. */
+	open(): void
+	/**
+	 * Closes the command palette.
+	 * @param focusTextarea Whether the editor's `textarea` should gain focus. Defaults to true.
+	 */
+	close(focusTextarea?: boolean): void
+}
+
+/**
+ * Extension adding a command palette that lists the commands in `editor.commands` along
+ * with their shortcuts. Typing filters the commands by their title, and Enter runs the
+ * selected command. The palette is opened with Ctrl+Shift+P (Cmd+Shift+P on MacOS) or F1,
+ * or by running the `openCommandPalette` command.
+ *
+ * Once added, the extension can be accessed from `editor.extensions.commandPalette`.
+ *
+ * Requires styling from `solid-prism-editor/command-palette.css`.
+ * @param filter Function used to filter and rank the commands. Defaults to
+ * {@link fuzzyFilter}.
+ */
+const commandPalette =
+	(filter: CompletionFilter = fuzzyFilter): Extension =>
+	editor => {
+		let isOpen = false
+		let activeIndex = 0
+		let results: [Command, number[]][] = []
+
+		const container = paletteTemplate() as HTMLDivElement
+		const palette = container.firstChild as HTMLDivElement
+		const [input, list] = palette.children as any as [HTMLInputElement, HTMLUListElement]
+		const rows = list.children as HTMLCollectionOf<HTMLLIElement>
+		const id = "pce-palette-" + count++
+
+		const updateActive = () => {
+			const row = rows[activeIndex]
+			for (let i = 0; i < rows.length; i++) {
+				if (i == activeIndex) rows[i].setAttribute("aria-selected", true as any)
+				else rows[i].removeAttribute("aria-selected")
+			}
+			if (row) {
+				const top = row.offsetTop
+				const bottom = top + row.offsetHeight - list.clientHeight
+				input.setAttribute("aria-activedescendant", row.id)
+				if (top < list.scrollTop) list.scrollTop = top
+				else if (bottom > list.scrollTop) list.scrollTop = bottom
+			} else input.removeAttribute("aria-activedescendant")
+		}
+
+		const filterCommands = () => {
+			const query = input.value
+			const matches: [number, Command, number[]][] = []
+
+			editor.commands.list().forEach(command => {
+				const match: ReturnType<CompletionFilter> = query ? filter(query, command.title) : [0, []]
+				if (match) matches.push([match[0], command, match[1]])
+			})
+
+			results = matches
+				.sort((a, b) => b[0] - a[0])
+				.map(([, command, matched]) => [command, matched])
+			list.textContent = ""
+			results.forEach(([command, matched], i) => {
+				const row = rowTemplate() as HTMLLIElement
+				const [title, keys] = row.children as any as [HTMLDivElement, HTMLElement]
+				row.id = id + "-" + i
+				row.onclick = () => runCommand(i)
+				updateMatched(title, matched, command.title)
+				keys.textContent = [...new Set(editor.commands.keys(command.name))]
+					.map(formatKeys)
+					.join(", ")
+				list.append(row)
+			})
+			activeIndex = 0
+			updateActive()
+		}
+
+		const runCommand = (index: number) => {
+			const command = results[index]?.[0]
+			if (command) {
+				close()
+				command.run()
+			}
+		}
+
+		const move = (offset: number) => () => {
+			const length = results.length
+			if (length) {
+				activeIndex = (activeIndex + offset + length) % length
+				updateActive()
+			}
+			return true
+		}
+
+		const open = () => {
+			if (!isOpen) {
+				isOpen = true
+				container.style.display = "flex"
+				input.value = ""
+				filterCommands()
+			}
+			input.focus()
+		}
+
+		const close = (focusTextarea = true) => {
+			if (isOpen) {
+				isOpen = false
+				container.style.display = "none"
+				list.textContent = ""
+				if (focusTextarea) editor.textarea.focus()
+			}
+		}
+
+		list.id = id
+		input.setAttribute("aria-controls", id)
+		input.oninput = filterCommands
+		input.onkeydown = e => editor.keymap.handle(e, "commandPalette")
+		input.onblur = e => !palette.contains(e.relatedTarget as Node) && close(false)
+		// Keeps the input focused when clicking a command
+		list.onmousedown = preventDefault
+
+		editor.commands.add([
+			{
+				name: "openCommandPalette",
+				title: "Show All Commands",
+				run() {
+					open()
+					return true
+				},
+				keys: [{ key: "Mod-Shift-p" }, { key: "F1" }],
+			},
+		])
+
+		editor.keymap.add([
+			{ key: "ArrowUp", scope: "commandPalette", run: move(-1) },
+			{ key: "ArrowDown", scope: "commandPalette", run: move(1) },
+			{
+				key: "Enter",
+				scope: "commandPalette",
+				run() {
+					runCommand(activeIndex)
+					return true
+				},
+			},
+			{
+				key: "Escape",
+				scope: "commandPalette",
+				run() {
+					close()
+					return true
+				},
+			},
+		])
+
+		editor.extensions.commandPalette = { open, close }
+
+		onCleanup(() => {
+			delete editor.extensions.commandPalette
+		})
+
+		return container
+	}
+
+export { commandPalette, formatKeys }
@@ -1,5 +1,12 @@
-import { addListener, getLineStart } from "../utils/local"
-import { Extension, InputCommandCallback, InputSelection, KeyCommandCallback } from "../types"
+import { addListener, getLineEnd, getLineStart } from "../utils/local"
+import {
+	CommentTokens,
+	EditorChange,
+	Extension,
+	InputCommandCallback,
+	InputSelection,
+	KeyCommandCallback,
+} from "../types"
 import { createEffect, on, onCleanup, onMount } from "solid-js"
 import {
 	getLanguage,
@@ -10,7 +17,9 @@ import {
 	prevSelection,
 	regexEscape,
 } from "../utils"
-import { isMac, languageMap, preventDefault } from "../core"
+import { applyToText, languageMap, mapPosition, mapSelections, preventDefault } from "../core"
+import { diffText } from "../prism/incremental"
+import { isServer } from "solid-js/web"
 import { getStyleValue } from "../utils/other"
 
 let ignoreTab = false
@@ -25,8 +34,7 @@ const addCommand = <T extends KeyCommandCallback | InputCommandCallback>(
 	cleanups.push(() => delete commands[key])
 }
 
-const clipboard = navigator.clipboard
-const mod = isMac ? 4 : 2
+const clipboard = isServer ? undefined : navigator.clipboard
 /**
  * Sets whether editors should ignore tab or use it for indentation.
  * Users can always toggle this using Ctrl+M / Ctrl+Shift+M (Mac).
@@ -34,6 +42,37 @@ const mod = isMac ? 4 : 2
 const setIgnoreTab = (newState: boolean) => (ignoreTab = newState)
 const whitespaceEnd = (str: string) => str.search(/\S|$/)
 
+/**
+ * Groups the lines containing the selections into blocks of lines.
+ * @param adjacent Whether blocks on adjacent lines should be merged.
+ * @returns An array of tuples containing the start of the first line and end of the last line.
+ */
+const getLineBlocks = (value: string, selections: InputSelection[], adjacent?: boolean) => {
+	const blocks: [number, number][] = []
+	selections
+		.slice()
+		.sort((a, b) => a[0] - b[0])
+		.forEach(([start, end]) => {
+			const [, lineStart, lineEnd] = getLines(value, start, end)
+			const last = blocks[blocks.length - 1]
+			if (last && lineStart <= last[1] + <any>!!adjacent) {
+				if (lineEnd > last[1]) last[1] = lineEnd
+			} else blocks.push([lineStart, lineEnd])
+		})
+	return blocks
+}
+
+/** Moves each selection by the offset of the block of lines it's in. */
+const shiftSelections = (
+	selections: InputSelection[],
+	blocks: [number, number][],
+	offsets: number[],
+) =>
+	selections.map(([start, end, dir]) => {
+		const offset = offsets[blocks.findIndex(block => start >= block[0] && start <= block[1])]
+		return [start + offset, end + offset, dir] as InputSelection
+	})
+
 /**
  * Extension that will add automatic indentation, closing of brackets,
  * quotes and tags along with the following commands:
@@ -62,13 +101,110 @@ const defaultCommands =
 	): Extension =>
 	editor => {
 		let prevCopy: string
-		const { keyCommandMap, inputCommandMap, getSelection, props, container } = editor
+		const { inputCommandMap, getSelection, props, container } = editor
 
 		const getIndent = ({ insertSpaces = true, tabSize } = props) =>
 			[insertSpaces ? " " : "\t", insertSpaces ? tabSize || 2 : 1] as const
 
 		const scroll = () => !props.readOnly && !editor.extensions.cursor?.scrollIntoView()
 
+		/** Returns all selections if the editor has extra selections. */
+		const getMultiple = () => {
+			const selections = editor.getSelections()
+			return selections[1] && selections
+		}
+
+		/**
+		 * Replaces each selection with the text returned by the callback. The cursors are
+		 * placed at the returned offset relative to the start of the inserted text.
+		 */
+		const replaceSelections = (
+			selections: InputSelection[],
+			callback: (selection: InputSelection) => [string, number],
+		) => {
+			const results = selections.map(callback)
+			const sorted = selections
+				.map((selection, i) => i)
+				.sort((a, b) => selections[a][0] - selections[b][0])
+			const positions: number[] = []
+			let offset = 0
+			sorted.forEach(i => {
+				const [start, end] = selections[i]
+				positions[i] = start + offset + results[i][1]
+				offset += results[i][0].length + start - end
+			})
+			editor.dispatch(
+				selections.map(([from, to], i) => ({ from, to, insert: results[i][0] })),
+				positions.map(pos => [pos, pos, "none"]),
+			)
+		}
+
+		/**
+		 * Replaces the lines in each block with the lines returned by the callback. Only the
+		 * changed parts of each line are replaced, so the selections stay in place.
+		 */
+		const editLineBlocks = (
+			blocks: [number, number][],
+			callback: (lines: string[], start: number, end: number) => string[],
+		) => {
+			const value = editor.value
+			const changes: EditorChange[] = []
+			blocks.forEach(([start, end]) => {
+				const lines = value.slice(start, end).split("\n")
+				callback(lines, start, end).forEach((line, i) => {
+					const old = lines[i]
+					if (line != old) {
+						let prefix = 0
+						let suffix = 0
+						let l = Math.min(line.length, old.length)
+						while (prefix < l && line[prefix] == old[prefix]) prefix++
+						while (
+							suffix < l - prefix &&
+							line[line.length - suffix - 1] == old[old.length - suffix - 1]
+						)
+							suffix++
+						changes.push({
+							from: start + prefix,
+							to: start + old.length - suffix,
+							insert: line.slice(prefix, line.length - suffix),
+						})
+					}
+					start += old.length + 1
+				})
+			})
+			editor.dispatch(changes)
+		}
+
+		/** Moves or copies the lines of all selections up or down. */
+		const moveLinesMultiple = (selections: InputSelection[], down: boolean, copy?: boolean) => {
+			const value = editor.value
+			const blocks = getLineBlocks(value, selections, !copy)
+			const changes: EditorChange[] = []
+			const offsets: number[] = []
+			let total = 0
+
+			if (!copy && (down ? blocks[blocks.length - 1][1] == value.length : !blocks[0][0])) return
+			blocks.forEach(([start, end]) => {
+				const text = value.slice(start, end)
+				if (copy) {
+					changes.push({ from: end, to: end, insert: "\n" + text })
+					offsets.push(total + (down ? text.length + 1 : 0))
+					total += text.length + 1
+				} else if (down) {
+					const lineEnd = getLineEnd(value, end + 1)
+					const line = value.slice(end + 1, lineEnd)
+					changes.push({ from: start, to: lineEnd, insert: line + "\n" + text })
+					offsets.push(line.length + 1)
+				} else {
+					const lineStart = getLineStart(value, start - 1)
+					const line = value.slice(lineStart, start - 1)
+					changes.push({ from: lineStart, to: end, insert: text + "\n" + line })
+					offsets.push(-line.length - 1)
+				}
+			})
+			editor.dispatch(changes, shiftSelections(selections, blocks, offsets))
+		}
+
 		/**
 		 * Automatically closes quotes and brackets if text is selected,
 		 * or if the character before and after the cursor matches a regex
@@ -80,12 +216,13 @@ const defaultCommands =
 			value: string,
 			wrapOnly?: boolean,
 		) =>
+			!getMultiple() &&
 			(start < end ||
 				(!wrapOnly && selfCloseRegex.test((value[end - 1] || " ") + open + (value[end] || " ")))) &&
 			!insertText(editor, open + value.slice(start, end) + close, null, null, start + 1, end + 1)!
 
 		const skipIfEqual = ([start, end]: InputSelection, char: string, value: string) =>
-			start == end && value[end] == char && !editor.setSelection(start + 1)!
+			start == end && value[end] == char && !getMultiple() && !editor.setSelection(start + 1)!
 
 		/**
 		 * Inserts slightly altered lines while keeping the same selection.
@@ -128,6 +265,13 @@ const defaultCommands =
 			}
 		}
 
+		const indentLines = (outdent: boolean, lines: string[], indentChar: string, tabSize: number) =>
+			lines.map(
+				outdent
+					? str => str.slice(whitespaceEnd(str) ? tabSize - (whitespaceEnd(str) % tabSize) : 0)
+					: str => str && indentChar.repeat(tabSize - (whitespaceEnd(str) % tabSize)) + str,
+			)
+
 		const indent = (
 			outdent: boolean,
 			lines: string[],
@@ -138,18 +282,57 @@ const defaultCommands =
 			indentChar: string,
 			tabSize: number,
 		) => {
-			insertLines(
-				lines,
-				lines.map(
-					outdent
-						? str => str.slice(whitespaceEnd(str) ? tabSize - (whitespaceEnd(str) % tabSize) : 0)
-						: str => str && indentChar.repeat(tabSize - (whitespaceEnd(str) % tabSize)) + str,
-				),
-				start1,
-				end1,
-				start,
-				end,
-			)
+			const selections = getMultiple()
+			if (selections) {
+				editLineBlocks(getLineBlocks(editor.value, selections), lines =>
+					indentLines(outdent, lines, indentChar, tabSize),
+				)
+			} else {
+				insertLines(
+					lines,
+					indentLines(outdent, lines, indentChar, tabSize),
+					start1,
+					end1,
+					start,
+					end,
+				)
+			}
+		}
+
+		const getComments = (position: number) => {
+			const language = languageMap[getLanguage(editor, position)] || {}
+			return language.getComments?.(editor, position, editor.value) || language.comments || {}
+		}
+
+		/** Returns the lines with comments toggled or undefined if the language has no comments. */
+		const toggleComments = (lines: string[], { line, block }: CommentTokens) => {
+			if (line) {
+				const escaped = regexEscape(line)
+				const regex = RegExp(`^\\s*(${escaped} ?|$)`)
+				const regex2 = RegExp(escaped + " ?")
+				const allWhiteSpace = !/\S/.test(lines.join(""))
+				return lines.map(
+					lines.every(line => regex.test(line)) && !allWhiteSpace
+						? str => str.replace(regex2, "")
+						: str => (allWhiteSpace || /\S/.test(str) ? str.replace(/^\s*/, `$&${line} `) : str),
+				)
+			}
+			if (block) {
+				const [open, close] = block
+				const last = lines.length - 1
+				const insertionPoint = whitespaceEnd(lines[0])
+				const hasComment = lines[0].startsWith(open, insertionPoint) && lines[last].endsWith(close)
+				const newLines = lines.slice()
+
+				newLines[0] = lines[0].replace(
+					hasComment ? RegExp(regexEscape(open) + " ?") : /(?=\S)|$/,
+					hasComment ? "" : open + " ",
+				)
+				newLines[last] = hasComment
+					? newLines[last].replace(RegExp(`( ?${regexEscape(close)})?$`), "")
+					: newLines[last] + " " + close
+				return newLines
+			}
 		}
 
 		const cleanUps: (() => void)[] = []
@@ -180,48 +363,68 @@ const defaultCommands =
 
 		addCommand(cleanUps, inputCommandMap, ">", (e, selection, value) => {
 			const closingTag = languageMap[getLanguage(editor)]?.autoCloseTags?.(selection, value, editor)
-			if (closingTag) {
+			if (closingTag && !getMultiple()) {
 				insertText(editor, ">" + closingTag, null, null, selection[0] + 1)
 				preventDefault(e)
 			}
 		})
 
-		addCommand(cleanUps, keyCommandMap, "Tab", (e, [start, end], value) => {
-			if (ignoreTab || props.readOnly || getModifierCode(e) & 6) return
+		const indentTab: KeyCommandCallback = (e, [start, end], value) => {
+			if (ignoreTab || props.readOnly) return
 			const [indentChar, tabSize] = getIndent()
 			const shiftKey = e.shiftKey
 			const [lines, start1, end1] = getLines(value, start, end)
-			if (start < end || shiftKey) {
+			const selections = getMultiple()
+			if (start < end || shiftKey || selections?.some(([start, end]) => start < end)) {
 				indent(shiftKey, lines, start1, end1, start, end, indentChar, tabSize)
+			} else if (selections) {
+				replaceSelections(selections, ([start]) => {
+					const text = indentChar.repeat(tabSize - ((start - getLineStart(value, start)) % tabSize))
+					return [text, text.length]
+				})
 			} else insertText(editor, indentChar.repeat(tabSize - ((start - start1) % tabSize)))
 			return scroll()
-		})
+		}
 
-		addCommand(cleanUps, keyCommandMap, "Enter", (e, selection, value) => {
-			const code = getModifierCode(e) & 7
-			if (!code || code == mod) {
-				if (code) selection[0] = selection[1] = getLines(value, selection[1])[2]
-				const [indentChar, tabSize] = getIndent()
-				const [start, end] = selection
-				const autoIndent = languageMap[getLanguage(editor)]?.autoIndent
+		const insertNewline: KeyCommandCallback = (e, selection, value) => {
+			const toLineEnd = getModifierCode(e) & 7
+			const [indentChar, tabSize] = getIndent()
+			const getNewLine = (selection: InputSelection): [string, number] => {
+				const autoIndent = languageMap[getLanguage(editor, selection[0])]?.autoIndent
 				const indenationCount =
-					Math.floor(whitespaceEnd(getLineBefore(value, start)) / tabSize) * tabSize
+					Math.floor(whitespaceEnd(getLineBefore(value, selection[0])) / tabSize) * tabSize
 				const extraIndent = autoIndent?.[0]?.(selection, value, editor) ? tabSize : 0
 				const extraLine = autoIndent?.[1]?.(selection, value, editor)
-				const newText =
+				return [
 					"\n" +
-					indentChar.repeat(indenationCount + extraIndent) +
-					(extraLine ? "\n" + indentChar.repeat(indenationCount) : "")
+						indentChar.repeat(indenationCount + extraIndent) +
+						(extraLine ? "\n" + indentChar.repeat(indenationCount) : ""),
+					indenationCount + extraIndent + 1,
+				]
+			}
+			const getLineEndSelection = ([, end, dir]: InputSelection) => {
+				const lineEnd = getLineEnd(value, end)
+				return [lineEnd, lineEnd, dir] as InputSelection
+			}
+			const selections = getMultiple()
 
-				if (newText[1] || value[end]) {
-					insertText(editor, newText, start, end, start + indenationCount + extraIndent + 1)
-					return scroll()
-				}
+			if (selections) {
+				replaceSelections(toLineEnd ? selections.map(getLineEndSelection) : selections, getNewLine)
+				return scroll()
 			}
-		})
 
-		addCommand(cleanUps, keyCommandMap, "Backspace", (_e, [start, end], value) => {
-			if (start == end) {
+			if (toLineEnd) selection = getLineEndSelection(selection)
+			const [newText, offset] = getNewLine(selection)
+			const [start, end] = selection
+
+			if (newText[1] || value[end]) {
+				insertText(editor, newText, start, end, start + offset)
+				return scroll()
+			}
+		}
+
+		const deleteIndent: KeyCommandCallback = (_e, [start, end], value) => {
+			if (start == end && !getMultiple()) {
 				const line = getLineBefore(value, start)
 				const tabSize = props.tabSize || 2
 				const isPair = selfClosePairs.includes(value.slice(start - 1, start + 1))
@@ -232,149 +435,219 @@ const defaultCommands =
 					return scroll()
 				}
 			}
-		})
+		}
 
-		for (let i = 0; i < 2; i++) {
-			addCommand(cleanUps, keyCommandMap, i ? "ArrowDown" : "ArrowUp", (e, [start, end], value) => {
-				const code = getModifierCode(e)
-
-				if (code == 1) {
-					// Moving lines
-					const newStart = i ? start : getLineStart(value, start) - 1
-					const newEnd = i ? value.indexOf("\n", end) + 1 : end
-					if (newStart > -1 && newEnd > 0) {
-						const [lines, start1, end1] = getLines(value, newStart, newEnd)
-						const line = lines[i ? "pop" : "shift"]()!
-						const offset = (line.length + 1) * (i ? 1 : -1)
-
-						lines[i ? "unshift" : "push"](line)
-						insertText(editor, lines.join("\n"), start1, end1, start + offset, end + offset)
-					}
-					return scroll()
-				} else if (code == 9) {
-					// Copying lines
-					const [lines, start1, end1] = getLines(value, start, end)
-					const str = lines.join("\n")
-					const offset = i ? str.length + 1 : 0
-					insertText(editor, str + "\n" + str, start1, end1, start + offset, end + offset)
-					return scroll()
-				} else if (code == 2 && !isMac) {
-					container.scrollBy(0, getStyleValue(container, "lineHeight") * (i ? 1 : -1))
-					return true
+		const moveLines = (down: boolean, copy?: boolean) => () => {
+			const [start, end] = getSelection()
+			const value = editor.value
+			const selections = getMultiple()
+
+			if (selections) moveLinesMultiple(selections, down, copy)
+			else if (copy) {
+				const [lines, start1, end1] = getLines(value, start, end)
+				const str = lines.join("\n")
+				const offset = down ? str.length + 1 : 0
+				insertText(editor, str + "\n" + str, start1, end1, start + offset, end + offset)
+			} else {
+				const newStart = down ? start : getLineStart(value, start) - 1
+				const newEnd = down ? value.indexOf("\n", end) + 1 : end
+				if (newStart > -1 && newEnd > 0) {
+					const [lines, start1, end1] = getLines(value, newStart, newEnd)
+					const line = lines[down ? "pop" : "shift"]()!
+					const offset = (line.length + 1) * (down ? 1 : -1)
+
+					lines[down ? "unshift" : "push"](line)
+					insertText(editor, lines.join("\n"), start1, end1, start + offset, end + offset)
 				}
-			})
+			}
+			return scroll()
 		}
 
-		cleanUps.push(
-			addListener(editor, "keydown", e => {
-				const code = getModifierCode(e)
-				const keyCode = e.keyCode
-				const [start, end, dir] = getSelection()
+		const scrollLine = (down: boolean) => () => {
+			container.scrollBy(0, getStyleValue(container, "lineHeight") * (down ? 1 : -1))
+			return true
+		}
+
+		const indentSelection = (outdent: boolean) => () => {
+			const [start, end] = getSelection()
+			indent(outdent, ...getLines(editor.value, start, end), start, end, ...getIndent())
+			scroll()
+			return true
+		}
+
+		const toggleComment = (isBlock: boolean) => () => {
+			const [start, end] = getSelection()
+			const value = editor.value
+			const position = isBlock ? start : getLineStart(value, start)
+			const comments = getComments(position)
+			const { line, block } = comments
+			const [lines, start1, end1] = getLines(value, start, end)
+			const selections = !isBlock && getMultiple()
 
-				if (code == mod && (keyCode == 221 || keyCode == 219)) {
-					indent(keyCode == 219, ...getLines(editor.value, start, end), start, end, ...getIndent())
+			if (selections) {
+				editLineBlocks(
+					getLineBlocks(value, selections),
+					(lines, start) => toggleComments(lines, getComments(start)) || lines,
+				)
+				scroll()
+				return true
+			} else if (isBlock) {
+				if (block) {
+					const [open, close] = block
+					const text = value.slice(start, end)
+					const pos = value.slice(0, start).search(regexEscape(open) + " ?$")
+					const matches = RegExp("^ ?" + regexEscape(close)).test(value.slice(end))
+
+					if (pos + 1 && matches)
+						insertText(
+							editor,
+							text,
+							pos,
+							end + +(value[end] == " ") + close.length,
+							pos,
+							pos + end - start,
+						)
+					else
+						insertText(
+							editor,
+							`${open} ${text} ${close}`,
+							start,
+							end,
+							start + open.length + 1,
+							end + open.length + 1,
+						)
 					scroll()
-					preventDefault(e)
-				} else if (code == (isMac ? 0b1010 : 0b0010) && keyCode == 77) {
-					setIgnoreTab(!ignoreTab)
-					preventDefault(e)
-				} else if ((keyCode == 191 && code == mod) || (keyCode == 65 && code == 9)) {
-					const value = editor.value
-					const isBlock = code == 9
-					const position = isBlock ? start : getLineStart(value, start)
-					const language = languageMap[getLanguage(editor, position)] || {}
-					const { line, block } =
-						language.getComments?.(editor, position, value) || language.comments || {}
-					const [lines, start1, end1] = getLines(value, start, end)
-					const last = lines.length - 1
-
-					if (isBlock) {
-						if (block) {
-							const [open, close] = block
-							const text = value.slice(start, end)
-							const pos = value.slice(0, start).search(regexEscape(open) + " ?$")
-							const matches = RegExp("^ ?" + regexEscape(close)).test(value.slice(end))
-
-							if (pos + 1 && matches)
-								insertText(
-									editor,
-									text,
-									pos,
-									end + +(value[end] == " ") + close.length,
-									pos,
-									pos + end - start,
-								)
-							else
-								insertText(
-									editor,
-									`${open} ${text} ${close}`,
-									start,
-									end,
-									start + open.length + 1,
-									end + open.length + 1,
-								)
-							scroll()
-							preventDefault(e)
-						}
-					} else {
-						if (line) {
-							const escaped = regexEscape(line)
-							const regex = RegExp(`^\\s*(${escaped} ?|$)`)
-							const regex2 = RegExp(escaped + " ?")
-							const allWhiteSpace = !/\S/.test(value.slice(start1, end1))
-							const newLines = lines.map(
-								lines.every(line => regex.test(line)) && !allWhiteSpace
-									? str => str.replace(regex2, "")
-									: str =>
-											allWhiteSpace || /\S/.test(str) ? str.replace(/^\s*/, `$&${line} `) : str,
-							)
-							insertLines(lines, newLines, start1, end1, start, end)
-							scroll()
-							preventDefault(e)
-						} else if (block) {
-							const [open, close] = block
-							const insertionPoint = whitespaceEnd(lines[0])
-							const hasComment =
-								lines[0].startsWith(open, insertionPoint) && lines[last].endsWith(close)
-							const newLines = lines.slice()
-
-							newLines[0] = lines[0].replace(
-								hasComment ? RegExp(regexEscape(open) + " ?") : /(?=\S)|$/,
-								hasComment ? "" : open + " ",
-							)
-							let diff = newLines[0].length - lines[0].length
-							newLines[last] = hasComment
-								? newLines[last].replace(RegExp(`( ?${regexEscape(close)})?$`), "")
-								: newLines[last] + " " + close
-
-							let newText = newLines.join("\n")
-							let firstInsersion = insertionPoint + start1
-							let newStart = firstInsersion > start ? start : Math.max(start + diff, firstInsersion)
-							let newEnd =
-								firstInsersion > end - <any>(start != end)
-									? end
-									: Math.min(Math.max(firstInsersion, end + diff), start1 + newText.length)
-							insertText(editor, newText, start1, end1, newStart, Math.max(newStart, newEnd))
-							scroll()
-							preventDefault(e)
-						}
-					}
-				} else if (code == 8 + mod && keyCode == 75) {
-					const value = editor.value
-					const [lines, start1, end1] = getLines(value, start, end)
-					const column = dir == "forward" ? end - end1 + lines.pop()!.length : start - start1
-					const newLineLen = getLines(value, end1 + 1)[0][0].length
-					insertText(
-						editor,
-						"",
-						start1 - <any>!!start1,
-						end1 + <any>!start1,
-						start1 + Math.min(column, newLineLen),
-					)
+					return true
+				}
+			} else {
+				const newLines = toggleComments(lines, comments)
+				if (line) {
+					insertLines(lines, newLines!, start1, end1, start, end)
 					scroll()
-					preventDefault(e)
+					return true
+				} else if (newLines) {
+					const insertionPoint = whitespaceEnd(lines[0])
+					const diff = newLines[0].length - lines[0].length
+
+					let newText = newLines.join("\n")
+					let firstInsersion = insertionPoint + start1
+					let newStart = firstInsersion > start ? start : Math.max(start + diff, firstInsersion)
+					let newEnd =
+						firstInsersion > end - <any>(start != end)
+							? end
+							: Math.min(Math.max(firstInsersion, end + diff), start1 + newText.length)
+					insertText(editor, newText, start1, end1, newStart, Math.max(newStart, newEnd))
+					scroll()
+					return true
 				}
-			}),
+			}
+		}
+
+		const deleteLines = () => {
+			const [start, end, dir] = getSelection()
+			const value = editor.value
+			const selections = getMultiple()
+			if (selections) {
+				editor.dispatch(
+					getLineBlocks(value, selections, true).map(([start, end]) => ({
+						from: start - <any>!!start,
+						to: end + <any>!start,
+						insert: "",
+					})),
+				)
+			} else {
+				const [lines, start1, end1] = getLines(value, start, end)
+				const column = dir == "forward" ? end - end1 + lines.pop()!.length : start - start1
+				const newLineLen = getLines(value, end1 + 1)[0][0].length
+				insertText(
+					editor,
+					"",
+					start1 - <any>!!start1,
+					end1 + <any>!start1,
+					start1 + Math.min(column, newLineLen),
+				)
+			}
+			scroll()
+			return true
+		}
+
+		editor.keymap.add([
+			// Tab is handled with any modifiers except Ctrl and Meta, and Enter with either no
+			// modifier or Mod, ignoring Shift in both cases
+			...["Tab", "Shift-Tab", "Alt-Tab", "Alt-Shift-Tab"].map(key => ({ key, run: indentTab })),
+			...["Enter", "Shift-Enter", "Mod-Enter", "Shift-Mod-Enter"].map(key => ({
+				key,
+				run: insertNewline,
+			})),
+			{ key: "Backspace", run: deleteIndent },
+			{ win: "Ctrl-ArrowUp", linux: "Ctrl-ArrowUp", run: scrollLine(false) },
+			{ win: "Ctrl-ArrowDown", linux: "Ctrl-ArrowDown", run: scrollLine(true) },
+		])
+
+		editor.commands.add([
+			{
+				name: "moveLineUp",
+				title: "Move Line Up",
+				run: moveLines(false),
+				keys: [{ key: "Alt-ArrowUp" }],
+			},
+			{
+				name: "moveLineDown",
+				title: "Move Line Down",
+				run: moveLines(true),
+				keys: [{ key: "Alt-ArrowDown" }],
+			},
+			{
+				name: "copyLineUp",
+				title: "Copy Line Up",
+				run: moveLines(false, true),
+				keys: [{ key: "Shift-Alt-ArrowUp" }],
+			},
+			{
+				name: "copyLineDown",
+				title: "Copy Line Down",
+				run: moveLines(true, true),
+				keys: [{ key: "Shift-Alt-ArrowDown" }],
+			},
+			{
+				name: "outdent",
+				title: "Outdent Line",
+				run: indentSelection(true),
+				keys: [{ key: "Mod-[" }],
+			},
+			{
+				name: "indent",
+				title: "Indent Line",
+				run: indentSelection(false),
+				keys: [{ key: "Mod-]" }],
+			},
+			{
+				name: "toggleTabCapture",
+				title: "Toggle Tab Key Moves Focus",
+				run: () => setIgnoreTab(!ignoreTab) || true,
+				keys: [{ key: "Ctrl-m", mac: "Ctrl-Shift-m" }],
+			},
+			{
+				name: "toggleComment",
+				title: "Toggle Line Comment",
+				run: toggleComment(false),
+				keys: [{ key: "Mod-/" }],
+			},
+			{
+				name: "toggleBlockComment",
+				title: "Toggle Block Comment",
+				run: toggleComment(true),
+				keys: [{ key: "Shift-Alt-a" }],
+			},
+			{
+				name: "deleteLine",
+				title: "Delete Line",
+				run: deleteLines,
+				keys: [{ key: "Mod-Shift-k" }],
+			},
+		])
+
+		cleanUps.push(
 			...(["copy", "cut", "paste"] as const).map(type =>
 				addListener(editor, type, e => {
 					const [start, end] = getSelection()
@@ -423,6 +696,36 @@ export interface EditHistory {
 	 * same offset will succeed or do nothing.
 	 */
 	has(offset: number): boolean
+	/** Gets the history entries and the index of the current entry. */
+	getState(): HistoryState
+	/**
+	 * Replaces the history, for example with entries from {@link EditHistory.getState} of
+	 * an editor that's been unmounted. The current entry should match the editor's code.
+	 */
+	setState(state: HistoryState): void
+	/**
+	 * Uses the state as the history without copying it. Histories sharing the same state
+	 * object share their entries, which is how editors displaying the same document share
+	 * their history. The current entry should match the editor's code.
+	 */
+	share(state: HistoryState): void
+	/**
+	 * Applies changes that aren't part of the history, such as edits by collaborators, to
+	 * every entry. This keeps the changes when undoing or redoing. The changes are mapped
+	 * through the differences between the entries, and changes overlapping local edits are
+	 * moved to the start of the edit.
+	 * @param changes Changes whose positions refer to the code of the current entry.
+	 */
+	rebase(changes: EditorChange[]): void
+}
+
+/**
+ * Serializable history of an editor. Each entry contains the code along with the
+ * selections before and after the edit.
+ */
+export type HistoryState = {
+	entries: [string, InputSelection[], InputSelection[]][]
+	index: number
 }
 
 /**
@@ -433,37 +736,47 @@ export interface EditHistory {
  *
  * Once added to an editor, this extension can be accessed from `editor.extensions.history`.
  *
+ * Undo and redo go through the editor's change filters. If a filter blocks the change, the
+ * history is left unchanged, and if it modifies the change, the result is added as a new entry.
+ *
  * @param historyLimit The maximum size of the history stack. Defaults to 999.
  */
 const editHistory =
 	(historyLimit = 999): Extension =>
 	editor => {
-		let sp = 0
+		let history: HistoryState = { entries: [], index: 0 }
+		let lastEntry: HistoryState["entries"][number] | undefined
 		let allowMerge: boolean
 		let isTyping = false
 		let prevInputType: string
 		let prevData: string | null
 		let isMerge: boolean
 		let prevTime: number
+		let isUndoing = false
 
 		const extensions = editor.extensions
-		const getSelection = editor.getSelection
-		const textarea = editor.textarea
-		const stack: [string, InputSelection, InputSelection][] = []
+		const getSelections = editor.getSelections
 		const update = (index = 0) => {
+			const stack = history.entries
 			if (index >= historyLimit) {
 				index--
 				stack.shift()
 			}
-			stack.splice((sp = index), historyLimit, [editor.value, getSelection(), getSelection()])
+			lastEntry = [editor.value, getSelections(), getSelections()]
+			stack.splice((history.index = index), historyLimit, lastEntry)
 		}
 		const setEditorState = (index: number) => {
-			if (stack[index]) {
-				textarea.value = stack[index][0]
-				textarea.setSelectionRange(...stack[index][index < sp ? 2 : 1])
-				editor.update()
+			const entry = history.entries[index]
+			if (entry && !editor.props.readOnly) {
+				const value = editor.value
+				isUndoing = true
+				editor.dispatch([diffText(value, entry[0])], entry[index < history.index ? 2 : 1])
+				isUndoing = false
+				// Change filters can block or modify the change, in which case the entry isn't reached
+				if (editor.value == entry[0]) history.index = index
+				else if (editor.value != value) update(history.index + 1)
+				else return
 				extensions.cursor?.scrollIntoView()
-				sp = index
 				allowMerge = false
 			}
 		}
@@ -473,49 +786,61 @@ const editHistory =
 			allowMerge = false
 		}
 
+		const rebaseEntry = (entry: HistoryState["entries"][number], changes: EditorChange[]) => {
+			entry[0] = applyToText(entry[0], changes)
+			entry[1] = mapSelections(entry[1], changes)
+			entry[2] = mapSelections(entry[2], changes)
+		}
+
 		const cleanUps = [
 			addListener(editor, "beforeinput", e => {
+				if (isUndoing) return
 				let data = e.data
 				let inputType = e.inputType
 				let time = e.timeStamp
 
 				if (/history/.test(inputType)) {
-					setEditorState(sp + (inputType[7] == "U" ? -1 : 1))
+					setEditorState(history.index + (inputType[7] == "U" ? -1 : 1))
 					preventDefault(e)
 				} else if (
 					!(isMerge =
 						allowMerge &&
+						// Edits aren't merged with entries added by other editors sharing the history
+						history.entries[history.index] == lastEntry &&
 						(prevInputType == inputType ||
 							(time - prevTime < 99 && inputType.slice(-4) == "Drop")) &&
 						!prevSelection &&
 						(data != " " || prevData == data))
 				) {
-					stack[sp][2] = prevSelection || getSelection()
+					const selections = getSelections()
+					if (prevSelection) selections[0] = prevSelection
+					history.entries[history.index][2] = selections
 				}
 				isTyping = true
 				prevData = data
 				prevTime = time
 				prevInputType = inputType
 			}),
-			addListener(editor, "input", () => update(sp + <any>!isMerge)),
-			addListener(editor, "keydown", e => {
-				if (!editor.props.readOnly) {
-					const code = getModifierCode(e)
-					const keyCode = e.keyCode
-					const isUndo = code == mod && keyCode == 90
-					const isRedo =
-						(code == mod + 8 && keyCode == 90) || (!isMac && code == mod && keyCode == 89)
-					if (isUndo) {
-						setEditorState(sp - 1)
-						preventDefault(e)
-					} else if (isRedo) {
-						setEditorState(sp + 1)
-						preventDefault(e)
-					}
-				}
-			}),
+			addListener(editor, "input", () => isUndoing || update(history.index + <any>!isMerge)),
 		]
 
+		const historyCommand = (offset: number) => () => {
+			if (!editor.props.readOnly) {
+				setEditorState(history.index + offset)
+				return true
+			}
+		}
+
+		editor.commands.add([
+			{ name: "undo", title: "Undo", run: historyCommand(-1), keys: [{ key: "Mod-z" }] },
+			{
+				name: "redo",
+				title: "Redo",
+				run: historyCommand(1),
+				keys: [{ key: "Mod-Shift-z" }, { win: "Ctrl-y", linux: "Ctrl-y" }],
+			},
+		])
+
 		createEffect(
 			on(editor.selection, () => {
 				allowMerge = isTyping
@@ -525,13 +850,54 @@ const editHistory =
 
 		extensions.history = {
 			clear,
-			has: offset => sp + offset in stack,
+			has: offset => history.index + offset in history.entries,
 			go(offset) {
-				setEditorState(sp + offset)
+				setEditorState(history.index + offset)
+			},
+			getState: () => ({
+				entries: history.entries.map(([value, before, after]) => [value, before, after]),
+				index: history.index,
+			}),
+			setState({ entries, index }) {
+				if (entries[index]) {
+					history.entries.splice(0, history.entries.length, ...entries)
+					history.index = index
+					allowMerge = false
+				} else clear()
+			},
+			share(state) {
+				history = state
+				allowMerge = false
+			},
+			rebase(changes) {
+				const { entries, index } = history
+				const values = entries.map(entry => entry[0])
+				const sorted = changes.slice().sort((a, b) => a.from - b.from)
+
+				for (let step = -1; step < 2; step += 2) {
+					let current = sorted
+					for (let i = index; entries[i + step]; i += step) {
+						const diff = [diffText(values[i], values[i + step])]
+						current = current.map(({ from, to, insert }) => {
+							const newFrom = mapPosition(from, diff)
+							return { from: newFrom, to: Math.max(newFrom, mapPosition(to, diff, true)), insert }
+						})
+						rebaseEntry(entries[i + step], current)
+					}
+				}
+				if (entries[index]) rebaseEntry(entries[index], sorted)
 			},
 		}
 
-		createEffect(on(() => editor.props.value, clear))
+		// Clearing synchronously lets a history restored in onMount survive
+		clear()
+		createEffect(
+			on(
+				() => editor.props.value,
+				() => editor.props.document || clear(),
+				{ defer: true },
+			),
+		)
 
 		onCleanup(() => {
 			cleanUps.forEach(cleanUp => cleanUp())
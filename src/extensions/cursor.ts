@@ -2,7 +2,7 @@ import { Extension } from "../types"
 import { onCleanup, createComputed } from "solid-js"
 import { getLineBefore } from "../utils"
 import { addListener, getLineEnd, scrollToEl } from "../utils/local"
-import { template } from "solid-js/web"
+import { template } from "../core"
 import { defaultCommands } from "./commands"
 
 /** Postion of the cursor relative to the editors overlays. */
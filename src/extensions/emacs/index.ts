@@ -0,0 +1,380 @@
+/** @module emacs */
+
+import { createEffect, createSignal, onCleanup, untrack } from "solid-js"
+import { template } from "../../core"
+import { Extension, InputSelection, KeyBinding } from "../../types"
+import { insertText } from "../../utils"
+import { addListener, getLineEnd, getLineStart } from "../../utils/local"
+import { createReplaceAPI } from "../search/replace"
+
+const barTemplate = template(
+	"<div style=display:none;align-items:flex-end><div class=pce-emacs-bar><span class=pce-emacs-label> </span><input class=pce-emacs-input autocorrect=off autocapitalize=off spellcheck=false aria-label=Search>",
+)
+
+const killRingSize = 60
+
+export interface Emacs {
+	/** The kill ring with the most recent kill first. */
+	readonly killRing: string[]
+	/** Position of the mark, or undefined if it hasn't been set. */
+	readonly mark: number | undefined
+	/**
+	 * Starts an incremental search, or moves to the next match if a search is in progress.
+	 * @param backward Whether to search backward. Defaults to false.
+	 */
+	search(backward?: boolean): void
+}
+
+/**
+ * Extension adding Emacs keybindings. The bindings have the highest precedence, so they
+ * override the conflicting bindings from `defaultCommands()` and other extensions
+ * along with the browser's defaults. Some browsers reserve shortcuts such as Ctrl+N and
+ * Ctrl+W, which then can't be overridden.
+ *
+ * The following keys are supported:
+ * - C-a, C-e, C-f, C-b, C-n and C-p: Move the cursor.
+ * - C-SPC: Set the mark. Moving the cursor then selects the region between the mark and
+ * the cursor until the mark is deactivated by an edit, C-g, C-w or M-w.
+ * - C-k: Kill the rest of the line, or the line break at the end of the line.
+ * - C-w: Kill the region.
+ * - M-w: Save the region to the kill ring without removing it.
+ * - C-y: Yank the last kill.
+ * - M-y: Replace the text just yanked with an earlier kill.
+ * - C-s and C-r: Incremental search forward and backward. The search is case-insensitive
+ * unless the search string contains uppercase letters. Enter ends the search at the match
+ * and C-g returns to where the search started.
+ * - C-x u: Undo. Requires the `editHistory()` extension.
+ * - C-x C-x: Exchange the cursor and the mark.
+ * - C-g: Cancel the C-x prefix, the search or the region.
+ *
+ * Consecutive kills are appended to the same entry in the kill ring.
+ *
+ * Once added, the extension can be accessed from `editor.extensions.emacs`.
+ *
+ * Requires styling from `solid-prism-editor/emacs.css` and `solid-prism-editor/search.css`
+ * to highlight the search matches.
+ */
+const emacs = (): Extension => editor => {
+	const textarea = editor.textarea
+	const replaceAPI = createReplaceAPI(editor)
+	const barContainer = barTemplate() as HTMLDivElement
+	const label = barContainer.firstChild!.firstChild as HTMLSpanElement
+	const input = label.nextSibling as HTMLInputElement
+	const killRing: string[] = []
+
+	const [message, setMessage] = createSignal("")
+	const [searchLabel, setSearchLabel] = createSignal("")
+
+	let mark: number | undefined
+	let isMarkActive = false
+	let hasPrefix = false
+	let lastCommand = ""
+	let prevCommand = ""
+	let goalColumn = 0
+	let yankStart = 0
+	let yankEnd = 0
+	let yankIndex = 0
+	let searchStart: InputSelection | undefined
+	let searchBackward = false
+	let lastSearch = ""
+
+	replaceAPI.container.className = "pce-matches"
+
+	const getPoint = () => {
+		const [start, end, dir] = editor.getSelection()
+		return dir == "backward" ? start : end
+	}
+
+	/** Moves the cursor and selects the region if the mark is active. */
+	const moveTo = (pos: number) => {
+		if (isMarkActive && mark != null) {
+			const markPos = Math.min(mark, editor.value.length)
+			editor.setSelection(
+				Math.min(markPos, pos),
+				Math.max(markPos, pos),
+				pos < markPos ? "backward" : "forward",
+			)
+		} else editor.setSelection(pos)
+		editor.extensions.cursor?.scrollIntoView()
+	}
+
+	const deactivateMark = () => {
+		isMarkActive = false
+		editor.setSelection(getPoint())
+	}
+
+	const move = (getPos: (value: string, point: number) => number) => () => {
+		moveTo(getPos(editor.value, getPoint()))
+		return true
+	}
+
+	const moveLine = (down: boolean) => () => {
+		const value = editor.value
+		const point = getPoint()
+		const lineStart = getLineStart(value, point)
+		const lineEnd = getLineEnd(value, point)
+		if (prevCommand != "line") goalColumn = point - lineStart
+		lastCommand = "line"
+
+		if (down ? lineEnd == value.length : !lineStart) moveTo(down ? lineEnd : 0)
+		else {
+			const start = down ? lineEnd + 1 : getLineStart(value, lineStart - 1)
+			moveTo(Math.min(start + goalColumn, getLineEnd(value, start)))
+		}
+		return true
+	}
+
+	/** Returns the selection, or the range between the mark and the cursor if it's empty. */
+	const getRegion = (): [number, number] | undefined => {
+		const [start, end] = editor.getSelection()
+		if (start < end) return [start, end]
+		if (mark != null) {
+			const markPos = Math.min(mark, editor.value.length)
+			return [Math.min(markPos, start), Math.max(markPos, start)]
+		}
+	}
+
+	/** Adds the text to the kill ring. Consecutive kills are appended to the last kill. */
+	const addKill = (text: string, prepend?: boolean) => {
+		if (prevCommand == "kill" && killRing[0] != null) {
+			killRing[0] = prepend ? text + killRing[0] : killRing[0] + text
+		} else {
+			killRing.unshift(text)
+			if (killRing.length > killRingSize) killRing.pop()
+		}
+		lastCommand = "kill"
+	}
+
+	const kill = (from: number, to: number, prepend?: boolean) => {
+		if (from < to) {
+			addKill(editor.value.slice(from, to), prepend)
+			isMarkActive = false
+			insertText(editor, "", from, to)
+		}
+		return true
+	}
+
+	const killLine = () => {
+		const value = editor.value
+		const point = getPoint()
+		const lineEnd = getLineEnd(value, point)
+		return kill(point, lineEnd > point ? lineEnd : Math.min(lineEnd + 1, value.length))
+	}
+
+	const killRegion = () => {
+		const region = getRegion()
+		if (region) kill(region[0], region[1], getPoint() == region[0])
+		return true
+	}
+
+	const copyRegion = () => {
+		const region = getRegion()
+		if (region) {
+			addKill(editor.value.slice(...region))
+			deactivateMark()
+		}
+		return true
+	}
+
+	const insertYank = (text: string, from: number, to: number) => {
+		insertText(editor, text, from, to)
+		yankStart = mark = from
+		yankEnd = from + text.length
+		lastCommand = "yank"
+	}
+
+	const yank = () => {
+		if (!killRing[0]) setMessage("Kill ring is empty")
+		else {
+			const [start, end] = editor.getSelection()
+			yankIndex = 0
+			insertYank(killRing[0], start, end)
+		}
+		return true
+	}
+
+	const yankPop = () => {
+		if (prevCommand != "yank") setMessage("Previous command was not a yank")
+		else {
+			yankIndex = (yankIndex + 1) % killRing.length
+			insertYank(killRing[yankIndex], yankStart, yankEnd)
+		}
+		return true
+	}
+
+	const setMark = () => {
+		mark = getPoint()
+		isMarkActive = true
+		editor.setSelection(mark)
+		setMessage("Mark set")
+		return true
+	}
+
+	const exchangePointAndMark = () => {
+		if (mark == null) return setMessage("No mark set in this buffer")
+		const pos = Math.min(mark, editor.value.length)
+		mark = getPoint()
+		isMarkActive = true
+		moveTo(pos)
+	}
+
+	const updateSearchLabel = (failing: boolean) => {
+		setSearchLabel(`${failing ? "Failing " : ""}I-search${searchBackward ? " backward" : ""}: `)
+	}
+
+	/**
+	 * Selects the closest match in the search direction.
+	 * @param next Whether to skip the selected match. Otherwise, a match at the start of the
+	 * selected match can be selected, which is used when the search string is extended.
+	 */
+	const findMatch = (next: boolean) => {
+		const str = input.value
+		if (!str) {
+			replaceAPI.stopSearch()
+			return updateSearchLabel(false)
+		}
+		replaceAPI.search(str, str != str.toLowerCase(), false, false)
+		if (!next) {
+			const [start, end] = editor.getSelection()
+			editor.setSelection(searchBackward ? end : start)
+		}
+		const index = searchBackward ? replaceAPI.prev() : replaceAPI.next()
+		replaceAPI.selectMatch(index)
+		updateSearchLabel(index < 0)
+	}
+
+	const search = (backward = false) => {
+		searchBackward = backward
+		if (!untrack(searchLabel)) {
+			searchStart = editor.getSelection()
+			isMarkActive = false
+			input.value = ""
+			updateSearchLabel(false)
+			input.focus()
+		} else {
+			if (!input.value) input.value = lastSearch
+			findMatch(true)
+		}
+	}
+
+	const endSearch = (cancel?: boolean) => {
+		if (!untrack(searchLabel)) return
+		const [start, end] = editor.getSelection()
+		lastSearch = input.value || lastSearch
+		setSearchLabel("")
+		replaceAPI.stopSearch()
+		if (cancel) editor.setSelection(...searchStart!)
+		else if (start < end) {
+			mark = searchStart![0]
+			editor.setSelection(searchBackward ? start : end)
+		}
+		textarea.focus()
+	}
+
+	const quit = () => {
+		if (isMarkActive) deactivateMark()
+		setMessage("Quit")
+		return true
+	}
+
+	const cleanUp = addListener(editor, "input", () => {
+		isMarkActive = false
+	})
+
+	editor.keymap.add(
+		(
+			[
+				{
+					// Runs before the other bindings to track the commands and handle the C-x prefix
+					key: "Any",
+					run(e) {
+						const key = e.key
+						if (e.isComposing || /^(Control|Alt|Shift|Meta)$/.test(key)) return false
+						prevCommand = lastCommand
+						lastCommand = ""
+						setMessage("")
+						if (!hasPrefix) return false
+
+						hasPrefix = false
+						const isCtrl = e.ctrlKey && !e.altKey && !e.metaKey
+						if (key == "u" && !e.ctrlKey && !e.altKey && !e.metaKey) {
+							const history = editor.extensions.history
+							if (history?.has(-1)) history.go(-1)
+							else setMessage("No further undo information")
+						} else if (key == "x" && isCtrl) exchangePointAndMark()
+						else if (key == "g" && isCtrl) setMessage("Quit")
+						else setMessage(`C-x ${isCtrl ? "C-" : ""}${key} is undefined`)
+						return true
+					},
+				},
+				{ key: "Ctrl-a", run: move(getLineStart) },
+				{ key: "Ctrl-e", run: move(getLineEnd) },
+				{ key: "Ctrl-f", run: move((value, point) => Math.min(point + 1, value.length)) },
+				{ key: "Ctrl-b", run: move((_, point) => Math.max(point - 1, 0)) },
+				{ key: "Ctrl-n", run: moveLine(true) },
+				{ key: "Ctrl-p", run: moveLine(false) },
+				{ key: "Ctrl-Space", run: setMark },
+				{ key: "Ctrl-k", run: killLine },
+				{ key: "Ctrl-w", run: killRegion },
+				{ key: "Alt-w", run: copyRegion },
+				{ key: "Ctrl-y", run: yank },
+				{ key: "Alt-y", run: yankPop },
+				{
+					key: "Ctrl-x",
+					run() {
+						hasPrefix = true
+						setMessage("C-x-")
+						return true
+					},
+				},
+				{ key: "Ctrl-g", run: quit },
+				...[false, true].flatMap(backward =>
+					[undefined, "emacs"].map(scope => ({
+						key: backward ? "Ctrl-r" : "Ctrl-s",
+						scope,
+						run() {
+							search(backward)
+							return true
+						},
+					})),
+				),
+				...["Enter", "Escape", "Ctrl-g"].map(key => ({
+					key,
+					scope: "emacs",
+					run() {
+						endSearch(key == "Ctrl-g")
+						return true
+					},
+				})),
+			] as KeyBinding[]
+		).map(binding => ({ ...binding, precedence: "highest" })),
+	)
+
+	input.oninput = () => findMatch(false)
+	input.onkeydown = e => editor.keymap.handle(e, "emacs")
+	input.onblur = () => endSearch()
+
+	createEffect(() => {
+		const text = searchLabel() || message()
+		barContainer.style.display = text ? "flex" : "none"
+		input.style.display = searchLabel() ? "" : "none"
+		label.textContent = text
+	})
+
+	editor.extensions.emacs = {
+		killRing,
+		get mark() {
+			return mark
+		},
+		search,
+	}
+
+	onCleanup(() => {
+		cleanUp()
+		delete editor.extensions.emacs
+	})
+
+	return [replaceAPI.container, barContainer]
+}
+
+export { emacs }
@@ -2,12 +2,11 @@
 
 import { Extension, PrismEditor, numLines } from "../.."
 import { getLineBefore } from "../../utils"
-import { languageMap } from "../../core"
+import { languageMap, template as _template } from "../../core"
 import { BracketMatcher } from "../match-brackets"
 import { TagMatcher } from "../match-tags"
 import { TokenStream, Token } from "../../prism"
 import { addListener, getLineEnd } from "../../utils/local"
-import { template as _template } from "solid-js/web"
 import { createEffect, onCleanup, onMount } from "solid-js"
 
 /**
@@ -37,6 +36,21 @@ export interface ReadOnlyCodeFolding {
 	toggleFold(lineNumber: number, force?: boolean): boolean
 	/** Call this after the {@link toggleFold} method to rerender the editor. */
 	updateFolds(): void
+	/** Gets the line numbers of the folded ranges. */
+	getFoldedLines(): number[]
+	/**
+	 * Maps a position in {@link fullCode} to the editor's folded code, for example to pass it
+	 * to `editor.coordsAtPos()`. Positions inside a folded range are moved to the start of
+	 * the fold's placeholder.
+	 */
+	toFoldedPosition(pos: number): number
+	/**
+	 * Finds the foldable ranges in the editor's current code and folds the ranges starting
+	 * on the specified lines. All other ranges are unfolded. Unlike the foldable ranges
+	 * found when the `value` prop changes, this happens synchronously.
+	 * @param lines Line numbers of the ranges to fold.
+	 */
+	setFoldedLines(lines: number[]): void
 }
 
 const template = _template('<div class="pce-fold"><div> ')
@@ -62,6 +76,7 @@ const readOnlyCodeFolding = (...providers: FoldingRangeProvider[]): Extension =>
 		let code: string
 		let lineNumberWidth: string
 		let foldPositions: (undefined | [number, number])[]
+		let pendingFolds: boolean
 
 		const foldToggles: HTMLDivElement[] = []
 		const foldPlaceholders: HTMLDivElement[] = []
@@ -179,6 +194,7 @@ const readOnlyCodeFolding = (...providers: FoldingRangeProvider[]): Extension =>
 		}
 
 		const createFolds = () => {
+			pendingFolds = false
 			foldPositions = []
 			value = code = editor.value
 			foldedRanges.clear()
@@ -221,7 +237,8 @@ const readOnlyCodeFolding = (...providers: FoldingRangeProvider[]): Extension =>
 		createEffect(() => {
 			editor.props.value
 			editor.props.language
-			queueMicrotask(createFolds)
+			pendingFolds = true
+			queueMicrotask(() => pendingFolds && createFolds())
 		})
 
 		createEffect(() => {
@@ -255,6 +272,26 @@ const readOnlyCodeFolding = (...providers: FoldingRangeProvider[]): Extension =>
 				foldedLines.has(lineNumber) != force &&
 				!toggleFold(lineNumber)!,
 			updateFolds: () => update(),
+			getFoldedLines: () => [...foldedLines],
+			toFoldedPosition(pos) {
+				let offset = 0
+				for (let [start, end] of [...foldedRanges].sort((a, b) => a[0] - b[0])) {
+					if (pos <= start) break
+					if (pos < end) return start - offset
+					offset += end - start - 3
+				}
+				return pos - offset
+			},
+			setFoldedLines(lines) {
+				// Unfolding first unless the code has been replaced since folding
+				if (foldedRanges.size && editor.value == value) {
+					foldedRanges.clear()
+					update()
+				}
+				createFolds()
+				lines.forEach(line => foldPositions[line] && !foldedLines.has(line) && toggleFold(line))
+				update()
+			},
 		}
 	}
 }
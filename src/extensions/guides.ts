@@ -1,6 +1,6 @@
 import { createEffect } from "solid-js"
 import { Extension } from "../types"
-import { template as _template } from "solid-js/web"
+import { template as _template } from "../core"
 
 const template = _template(
 	"<div class=guide-indents style=left:var(--padding-left);bottom:auto;right:auto> ",
@@ -10,7 +10,14 @@ const indentTemplate = _template(
 	"<div style=width:1px;position:absolute;background:var(--bg-guide-indent)>",
 )
 
-/** Extension adding indent guides to an editor. Does not work with word wrap. */
+/** Adds the space in pixels to the number of lines if there's any. */
+const toLength = (lines: number, space: number) =>
+	space ? `calc(${lines}00% + ${space}px)` : lines + "00%"
+
+/**
+ * Extension adding indent guides to an editor. Does not work with word wrap. The space
+ * taken up by `blockWidgets()` is accounted for.
+ */
 export const indentGuides = (): Extension => editor => {
 	let tabSize: number
 	let prevLength = 0
@@ -21,10 +28,12 @@ export const indentGuides = (): Extension => editor => {
 	const container = template() as HTMLElement
 	const lines: HTMLDivElement[] = []
 	const indents: number[][] = []
+	const positions: string[][] = []
 
 	createEffect(() => {
 		const value = editor.value
 		const wordWrap = editor.props.wordWrap
+		const spaceAbove = editor.extensions.blockWidgets?.spaceAbove
 
 		tabSize = editor.props.tabSize || 2
 		// We don't need the selection, but want to subscribe to the signal
@@ -42,8 +51,6 @@ export const indentGuides = (): Extension => editor => {
 
 				next = newIndents[i + 1]
 
-				if (top != old?.[0]) style.top = top + "00%"
-				if (height != old?.[1]) style.height = height + "00%"
 				if (left != old?.[2]) style.left = left * 100 + "%"
 
 				const isSingleIndent = prev[0] != top && next?.[0] != top
@@ -60,6 +67,22 @@ export const indentGuides = (): Extension => editor => {
 			container.append(...lines.slice(prevLength, (prevLength = l)))
 		}
 
+		if (!wordWrap && (spaceAbove || value != prevValue)) {
+			for (let i = 0; i < prevLength; i++) {
+				const [top, height] = indents[i]
+				const spaceTop = spaceAbove?.(top + 1) || 0
+				const position = [
+					toLength(top, spaceTop),
+					toLength(height, (spaceAbove?.(top + height) || 0) - spaceTop),
+				]
+				const old = positions[i]
+				const style = lines[i].style
+				if (position[0] != old?.[0]) style.top = position[0]
+				if (position[1] != old?.[1]) style.height = position[1]
+				positions[i] = position
+			}
+		}
+
 		const newActive = lineIndentMap[editor.activeLine - 1] ?? -1
 
 		if (newActive != active) {
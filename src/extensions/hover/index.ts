@@ -0,0 +1,215 @@
+/** @module hover */
+
+import { createEffect, on, onCleanup } from "solid-js"
+import { measureChar, numLines, preventDefault, template } from "../../core"
+import { addTooltip } from "../../tooltips"
+import { Extension, PrismEditor } from "../../types"
+import { addListener, getLineStart } from "../../utils/local"
+import type { CursorPosition } from "../cursor"
+
+/** Content displayed in the hover tooltip. Empty values are ignored. */
+export type HoverContent = string | Node | null | undefined | void
+
+/**
+ * Function returning information about the code at a position. If the provider throws or
+ * the promise rejects, its result is ignored.
+ * @param editor The editor being hovered.
+ * @param pos Position of the hovered character.
+ * @param token The innermost token containing the character, if any.
+ */
+export type HoverProvider = (
+	editor: PrismEditor,
+	pos: number,
+	token: HTMLSpanElement | undefined,
+) => HoverContent | Promise<HoverContent>
+
+const tooltipTemplate = template("<div class=pce-hover role=tooltip>")
+const sectionTemplate = template("<div class=pce-hover-section>")
+
+let count = 0
+
+const contains = (rect: DOMRect, x: number, y: number) =>
+	x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
+
+/** Measures the character at the position unless it's a line break or the end of the code. */
+const measureAt = (editor: PrismEditor, pos: number) => {
+	const value = editor.value
+	if (pos >= 0 && pos < value.length && value[pos] != "\n") {
+		const [node, , rect] = measureChar(
+			editor.lines[numLines(value, 0, pos)],
+			pos - getLineStart(value, pos),
+		)!
+		return [pos, node, rect] as const
+	}
+}
+
+const getToken = (node: Text) => {
+	const parent = node.parentNode as HTMLElement
+	return parent.nodeName == "SPAN" ? (parent as HTMLSpanElement) : undefined
+}
+
+/**
+ * Extension showing a tooltip with information from hover providers when the mouse rests
+ * over the code. The tooltip is placed next to the hovered token. It's hidden once the
+ * mouse leaves the token or the tooltip.
+ *
+ * The following commands are added:
+ *
+ * - Ctrl+I (Cmd+I on MacOS): Show the tooltip for the code at the cursor
+ * - Escape: Close the tooltip
+ *
+ * Requires styling from `solid-prism-editor/hover.css`.
+ * @param providers Hover providers whose content is combined. Providers can return
+ * promises, and results for positions that are no longer hovered are ignored.
+ * @param delay Milliseconds the mouse must rest before the tooltip is shown. Defaults to 300.
+ */
+const hoverTooltip =
+	(providers: HoverProvider | HoverProvider[], delay = 300): Extension =>
+	editor => {
+		let timeout: ReturnType<typeof setTimeout>
+		let requestId = 0
+		let isOpen = false
+		let fromKeyboard = false
+		let hovered: DOMRect | undefined
+
+		const allProviders = ([] as HoverProvider[]).concat(providers)
+		const textarea = editor.textarea
+		const tooltip = tooltipTemplate() as HTMLDivElement
+		const { show, hide: _hide, element } = addTooltip(editor, tooltip, false)
+
+		const getPosition = (rect: DOMRect): CursorPosition => {
+			const rect2 = editor.lines[0].getBoundingClientRect()
+			return {
+				top: rect.y - rect2.y,
+				bottom: rect2.bottom - rect.bottom,
+				left: rect.x - rect2.x,
+				right: rect2.right - rect.x,
+				height: rect.height,
+			}
+		}
+
+		const hide = () => {
+			// Results from unfinished providers are ignored
+			requestId++
+			clearTimeout(timeout)
+			if (isOpen) {
+				_hide()
+				textarea.removeAttribute("aria-describedby")
+				isOpen = false
+				hovered = undefined
+			}
+		}
+
+		const open = (pos: number, token: HTMLSpanElement | undefined, rect: DOMRect) => {
+			const id = ++requestId
+			Promise.all(
+				allProviders.map(provider =>
+					// Failing providers are ignored
+					Promise.resolve()
+						.then(() => provider(editor, pos, token))
+						.catch(() => null),
+				),
+			).then(results => {
+				if (id != requestId) return
+				const content = results.filter(result => result) as (string | Node)[]
+				if (!content[0]) return hide()
+
+				tooltip.replaceChildren(
+					...content.map(result => {
+						const section = sectionTemplate() as HTMLDivElement
+						section.append(result)
+						return section
+					}),
+				)
+				hovered = rect
+				isOpen = true
+				show(true, getPosition(rect))
+				textarea.setAttribute("aria-describedby", tooltip.id)
+			})
+		}
+
+		const cleanUps = [
+			addListener(editor, "mousemove", e => {
+				const x = e.clientX
+				const y = e.clientY
+				if (hovered && contains(hovered, x, y)) return
+				hide()
+				// No tooltips while selecting text
+				if (e.buttons) return
+
+				timeout = setTimeout(() => {
+					const pos = editor.posAtCoords(x, y)
+					// The closest position can be on either side of the hovered character
+					const char = [measureAt(editor, pos - 1), measureAt(editor, pos)].find(
+						char => char && contains(char[2], x, y),
+					)
+					if (char) {
+						const token = getToken(char[1])
+						const rect =
+							Array.from(token?.getClientRects() || []).find(rect => contains(rect, x, y)) ||
+							char[2]
+
+						fromKeyboard = false
+						open(char[0], token, rect)
+					}
+				}, delay)
+			}),
+			addListener(editor, "mouseleave", e => {
+				if (!fromKeyboard && !tooltip.contains(e.relatedTarget as Node)) hide()
+			}),
+			addListener(editor, "beforeinput", hide),
+		]
+
+		editor.keymap.add([
+			{
+				key: "Mod-i",
+				precedence: "high",
+				run(_e, [start, end, dir]) {
+					const pos = dir < "f" ? start : end
+					// Using the character before the cursor at the end of lines
+					const char = measureAt(editor, pos) || measureAt(editor, pos - 1)
+					hide()
+					if (char) {
+						const token = getToken(char[1])
+						fromKeyboard = true
+						open(char[0], token, token?.getClientRects()[0] || char[2])
+					}
+					return true
+				},
+			},
+			{
+				key: "Escape",
+				precedence: "high",
+				run() {
+					if (isOpen) {
+						hide()
+						return true
+					}
+				},
+			},
+		])
+
+		tooltip.id = "pce-hover-" + count++
+		tooltip.onmouseleave = e => {
+			if (!fromKeyboard && e.relatedTarget != textarea) hide()
+		}
+
+		createEffect(
+			on(
+				editor.selection,
+				() => {
+					if (fromKeyboard) hide()
+				},
+				{ defer: true },
+			),
+		)
+
+		onCleanup(() => {
+			hide()
+			cleanUps.forEach(cleanUp => cleanUp())
+		})
+
+		return element
+	}
+
+export { hoverTooltip }
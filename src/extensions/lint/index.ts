@@ -0,0 +1,367 @@
+/** @module lint */
+
+import { createEffect, createMemo, on, onCleanup, untrack } from "solid-js"
+import { numLines, preventDefault, template } from "../../core"
+import { addTooltip } from "../../tooltips"
+import { Extension, LineDecoration, PrismEditor } from "../../types"
+import { addListener } from "../../utils/local"
+import { CursorPosition, cursorPosition } from "../cursor"
+
+export type Severity = "error" | "warning" | "info"
+
+export type QuickFix = {
+	/** Label of the button applying the fix. */
+	label: string
+	/**
+	 * Function applying the fix, usually with `editor.dispatch`.
+	 * @param editor The editor the diagnostic belongs to.
+	 * @param diagnostic The diagnostic with positions matching the current code.
+	 */
+	apply(editor: PrismEditor, diagnostic: Diagnostic): void
+}
+
+export type Diagnostic = {
+	/** Start of the range the diagnostic applies to. */
+	from: number
+	/** End of the range the diagnostic applies to. */
+	to: number
+	severity: Severity
+	/** Message displayed in the tooltip. */
+	message: string
+	/** Name of the tool that created the diagnostic. Displayed after the message. */
+	source?: string
+	/** Fixes the user can apply from the tooltip. */
+	fixes?: QuickFix[]
+}
+
+/**
+ * Function returning diagnostics for the current code of the editor. Returning a promise
+ * allows linting in for example a worker. If the source throws or the promise rejects, it
+ * doesn't report any diagnostics.
+ */
+export type LintSource = (editor: PrismEditor) => Diagnostic[] | Promise<Diagnostic[]>
+
+export interface Linter {
+	/**
+	 * Reactive accessor for the diagnostics sorted by their position. Their positions are
+	 * updated when the code changes.
+	 */
+	diagnostics(): Diagnostic[]
+	/** Runs the lint sources immediately instead of waiting for the delay. */
+	lint(): void
+	/**
+	 * Moves the cursor to the next diagnostic and shows its tooltip.
+	 * @returns Whether the editor has any diagnostics.
+	 */
+	next(): boolean
+	/**
+	 * Moves the cursor to the previous diagnostic and shows its tooltip.
+	 * @returns Whether the editor has any diagnostics.
+	 */
+	prev(): boolean
+}
+
+const tooltipTemplate = template("<div class=pce-lint-tooltip>")
+const messageTemplate = template(
+	"<div class=pce-lint-message><span> </span> <span class=pce-lint-source> </span><div class=pce-lint-fixes>",
+)
+const fixTemplate = template("<button class=pce-lint-fix> ")
+
+const severities: Severity[] = ["info", "warning", "error"]
+const markers: Record<Severity, string> = { info: "●", warning: "▲", error: "✕" }
+
+/**
+ * Extension showing diagnostics from lint sources. The code is linted once the user stops
+ * typing, and results from runs started before the code changed are ignored.
+ *
+ * Diagnostics are underlined, and the most severe diagnostic on each line gets an icon
+ * in the gutter. When the cursor is moved into a diagnostic or the mouse rests over one, a
+ * tooltip with its message and quick fixes is shown. The tooltip requires the
+ * {@link cursorPosition} extension when it's opened by moving the cursor.
+ *
+ * The following commands are added:
+ *
+ * - F8: Go to next diagnostic
+ * - Shift+F8: Go to previous diagnostic
+ * - Escape: Close the tooltip
+ *
+ * Once added, the extension can be accessed from `editor.extensions.lint`.
+ *
+ * Requires styling from `solid-prism-editor/lint.css`.
+ * @param sources Lint sources whose diagnostics are combined.
+ * @param delay Milliseconds to wait after the code changed before linting. Defaults to 500.
+ */
+const lint =
+	(sources: LintSource | LintSource[], delay = 500): Extension =>
+	editor => {
+		let timeout: ReturnType<typeof setTimeout>
+		let hoverTimeout: ReturnType<typeof setTimeout>
+		let runId = 0
+		let isOpen = false
+		let hovered: Diagnostic | undefined
+		let isTyping = false
+		let prevValue: string
+		let prevLanguage: string
+
+		const allSources = ([] as LintSource[]).concat(sources)
+		const tooltip = tooltipTemplate() as HTMLDivElement
+		const { show, hide: _hide, element } = addTooltip(editor, tooltip, false)
+		const decorations = editor.addDecorations<{
+			from: number
+			to: number
+			class: string
+			diagnostic: Diagnostic
+		}>([])
+		const lineDecorations = editor.addLineDecorations<LineDecoration>([])
+
+		const diagnostics = createMemo(() =>
+			decorations
+				.decorations()
+				.map(({ from, to, diagnostic }) => ({ ...diagnostic, from, to }))
+				.sort((a, b) => a.from - b.from),
+		)
+
+		const hide = () => {
+			hovered = undefined
+			if (isOpen) {
+				_hide()
+				isOpen = false
+			}
+		}
+
+		const setDiagnostics = (newDiagnostics: Diagnostic[]) => {
+			const length = editor.value.length
+			decorations.set(
+				newDiagnostics.flatMap(diagnostic => {
+					let { from, to, severity } = diagnostic
+					// Empty diagnostics are widened to be visible
+					if (from == to) to++
+					if (to > length) from = Math.max(0, (to = length) - 1)
+					return from < to ? [{ from, to, class: "pce-lint pce-lint-" + severity, diagnostic }] : []
+				}),
+			)
+		}
+
+		const run = () => {
+			const id = ++runId
+			clearTimeout(timeout)
+			Promise.all(
+				allSources.map(source =>
+					// A failing source counts as a source without diagnostics
+					Promise.resolve()
+						.then(() => source(editor))
+						.catch((): Diagnostic[] => []),
+				),
+			).then(results => {
+				if (id == runId) setDiagnostics(results.flat())
+			})
+		}
+
+		const schedule = () => {
+			// Incrementing the id makes any unfinished run outdated
+			runId++
+			clearTimeout(timeout)
+			timeout = setTimeout(run, delay)
+		}
+
+		/**
+		 * Shows the tooltip for the diagnostics at the position if there are any.
+		 * @param position Where to place the tooltip instead of at the cursor.
+		 */
+		const showAt = (pos: number, position?: CursorPosition) => {
+			const current = untrack(diagnostics).filter(({ from, to }) => from <= pos && to >= pos)
+
+			if (!current[0]) return hide()
+			tooltip.replaceChildren(
+				...current.map(diagnostic => {
+					const { severity, message, source, fixes = [] } = diagnostic
+					const el = messageTemplate() as HTMLDivElement
+					const [messageEl, , sourceEl, fixesEl] = el.childNodes as any as HTMLElement[]
+
+					el.classList.add("pce-lint-message-" + severity)
+					messageEl.textContent = message
+					if (source) sourceEl.textContent = source
+					else sourceEl.remove()
+
+					fixes.forEach(fix => {
+						const button = fixTemplate() as HTMLButtonElement
+						button.textContent = fix.label
+						button.onclick = () => {
+							hide()
+							fix.apply(editor, diagnostic)
+						}
+						fixesEl.append(button)
+					})
+
+					return el
+				}),
+			)
+			isOpen = true
+			show(false, position)
+		}
+
+		/** Finds the diagnostic under the mouse along with where the hovered character is. */
+		const getHovered = (x: number, y: number) => {
+			const value = editor.value
+			const pos = editor.posAtCoords(x, y)
+			// The closest position can be on either side of the hovered character
+			for (const start of [pos - 1, pos]) {
+				const rect = value[start] != "\n" && editor.coordsAtPos(start)
+				const end = rect && editor.coordsAtPos(start + 1)
+				if (
+					end &&
+					x >= Math.min(rect.x, end.x) &&
+					x <= Math.max(rect.x, end.x) &&
+					y >= rect.top &&
+					y <= rect.bottom
+				) {
+					const diagnostic = untrack(diagnostics).find(
+						({ from, to }) => from <= start && to > start,
+					)
+					if (diagnostic) {
+						const lines = editor.lines[0].getBoundingClientRect()
+						return [
+							diagnostic,
+							start,
+							{
+								top: rect.top - lines.top,
+								bottom: lines.bottom - rect.bottom,
+								left: rect.x - lines.x,
+								right: lines.right - rect.x,
+								height: rect.height,
+							},
+						] as const
+					}
+				}
+			}
+		}
+
+		const move = (next: boolean) => {
+			const all = untrack(diagnostics)
+			const [start, end] = editor.getSelection()
+			const diagnostic = next
+				? all.find(({ from }) => from > end) || all[0]
+				: all.filter(({ from }) => from < start).pop() || all[all.length - 1]
+
+			if (diagnostic) {
+				editor.setSelection(diagnostic.from)
+				editor.extensions.cursor?.scrollIntoView()
+			}
+			return !!diagnostic
+		}
+
+		const cleanUps = [
+			addListener(editor, "beforeinput", () => (isTyping = true)),
+			addListener(editor, "blur", e => {
+				if (!tooltip.contains(e.relatedTarget as Element)) hide()
+			}),
+			addListener(editor, "mousemove", e => {
+				const x = e.clientX
+				const y = e.clientY
+				clearTimeout(hoverTimeout)
+				// No tooltips while selecting text
+				if (e.buttons) return
+				if (hovered && getHovered(x, y)?.[0] != hovered) hide()
+				if (!hovered) {
+					hoverTimeout = setTimeout(() => {
+						const result = getHovered(x, y)
+						if (result) {
+							showAt(result[1], result[2])
+							hovered = result[0]
+						}
+					}, 300)
+				}
+			}),
+			addListener(editor, "mouseleave", e => {
+				clearTimeout(hoverTimeout)
+				if (hovered && !tooltip.contains(e.relatedTarget as Node)) hide()
+			}),
+		]
+
+		editor.keymap.add([
+			{ key: "F8", precedence: "high", run: () => move(true) || true },
+			{ key: "Shift-F8", precedence: "high", run: () => move(false) || true },
+			{
+				key: "Escape",
+				precedence: "high",
+				run() {
+					if (isOpen) {
+						hide()
+						return true
+					}
+				},
+			},
+		])
+
+		// Keeps the editor focused when clicking the tooltip
+		tooltip.onmousedown = preventDefault
+		tooltip.onmouseleave = e => {
+			if (hovered && e.relatedTarget != editor.textarea) hide()
+		}
+
+		createEffect(
+			on(editor.tokens, () => {
+				const value = editor.value
+				const language = editor.props.language
+				if (value != prevValue || language != prevLanguage) {
+					prevValue = value
+					prevLanguage = language
+					schedule()
+				}
+			}),
+		)
+
+		createEffect(
+			on(editor.selection, ([start, end]) => {
+				hovered = undefined
+				if (isTyping || start != end) hide()
+				else showAt(start)
+				isTyping = false
+			}),
+		)
+
+		createEffect(
+			on(diagnostics, diagnostics => {
+				const value = editor.value
+				const lines = new Map<number, Severity>()
+				let line = 1
+				let pos = 0
+
+				diagnostics.forEach(({ from, severity }) => {
+					line += numLines(value, pos, (pos = from)) - 1
+					if (severities.indexOf(severity) > severities.indexOf(lines.get(line)!)) {
+						lines.set(line, severity)
+					}
+				})
+
+				lineDecorations.set(
+					Array.from(lines, ([line, severity]) => ({
+						line,
+						class: "pce-lint-gutter-" + severity,
+						gutterMarker: markers[severity],
+					})),
+				)
+				if (hovered) hide()
+				else if (isOpen) showAt(editor.getSelection()[0])
+			}),
+		)
+
+		editor.extensions.lint = {
+			diagnostics,
+			lint: run,
+			next: () => move(true),
+			prev: () => move(false),
+		}
+
+		onCleanup(() => {
+			runId++
+			clearTimeout(timeout)
+			clearTimeout(hoverTimeout)
+			cleanUps.forEach(cleanUp => cleanUp())
+			delete editor.extensions.lint
+		})
+
+		return element
+	}
+
+export { lint }
@@ -67,7 +67,7 @@ export const matchBrackets = (
 
 					if (Array.isArray(content)) {
 						matchRecursive(content, position, sp + level)
-					} else if ((token.alias || token.type) == "punctuation") {
+					} else if ((removeBracketAlias(token.alias) || token.type) == "punctuation") {
 						let openingType = testBracket(content, openingBrackets, length - 1)
 						let closingType = openingType || testBracket(content, closingBrackets, length - 1)
 						if (closingType) {
@@ -110,7 +110,7 @@ export const matchBrackets = (
 			matchRecursive(editor.tokens(), 0, 0)
 			if (rainbowBrackets) {
 				for (let i = 0, bracket: Bracket; (bracket = brackets[i]); ) {
-					let alias = bracket[0].alias
+					let alias = removeBracketAlias(bracket[0].alias)
 
 					bracket[0].alias =
 						(alias ? alias + " " : "") +
@@ -125,6 +125,9 @@ export const matchBrackets = (
 	}
 }
 
+/** Removes the alias added by rainbow brackets since tokens can be reused between updates. */
+const removeBracketAlias = (alias?: string) => alias?.replace(/ ?bracket-(?:level-\d+|error)$/, "")
+
 const testBracket = (str: string, brackets: string, l: number) => {
 	return brackets.indexOf(str[0]) + 1 || (l && brackets.indexOf(str[l]) + 1)
 }
@@ -0,0 +1,370 @@
+/** @module minimap */
+
+import { createEffect, on, onCleanup, onMount } from "solid-js"
+import { preventDefault, template } from "../../core"
+import { TokenStream } from "../../prism"
+import { Extension } from "../../types"
+import { getStyleValue } from "../../utils/other"
+
+const minimapTemplate = template(
+	"<div style=display:flex;justify-content:flex-end;align-items:flex-start aria-hidden=true><div class=pce-minimap><canvas></canvas><div class=pce-minimap-slider></div><div style=display:none>",
+)
+
+/** Column, length and color index of a word in the minimap. */
+type Run = [column: number, length: number, color: number]
+
+export type MinimapOptions = {
+	/** Width of the minimap in pixels. Longer lines are cut off. @default 100 */
+	width?: number
+	/** Width in pixels of each character. Lines are twice as tall. @default 1 */
+	scale?: number
+	/**
+	 * Whether to display the matches of the `searchWidget()` extension in the minimap.
+	 * @default true
+	 */
+	showMatches?: boolean
+	/** Whether to display the selections in the minimap. @default true */
+	showSelections?: boolean
+}
+
+/**
+ * Splits the tokens into lines of words. Each word has the index of the token classes
+ * wrapping it, which are nested token classes separated by `>`.
+ */
+const getRuns = (
+	tokens: TokenStream,
+	tabSize: number,
+	getColorIndex: (classes: string) => number,
+): Run[][] => {
+	const lines: Run[][] = [[]]
+	let column = 0
+	let current = lines[0]
+
+	const addText = (text: string, classes: string) => {
+		const color = getColorIndex(classes)
+		for (let i = 0, l = text.length; i < l; ) {
+			const char = text[i]
+			if (char == "\n") {
+				lines.push((current = []))
+				column = 0
+				i++
+			} else if (char == "\t") {
+				column += tabSize - (column % tabSize)
+				i++
+			} else if (/\s/.test(char)) {
+				column++
+				i++
+			} else {
+				const start = i
+				while (++i < l && !/\s/.test(text[i]));
+				current.push([column, i - start, color])
+				column += i - start
+			}
+		}
+	}
+
+	const walk = (tokens: TokenStream, classes: string) => {
+		for (const token of tokens) {
+			if (typeof token == "string") addText(token, classes)
+			else {
+				const tokenClasses = `${classes && classes + ">"}${token.type} ${token.alias || ""}`
+				if (typeof token.content == "string") addText(token.content, tokenClasses)
+				else walk(token.content, tokenClasses)
+			}
+		}
+	}
+
+	walk(tokens, "")
+	return lines
+}
+
+/**
+ * Extension displaying a scaled-down overview of the code on the right side of the editor.
+ * The words are colored with the theme's colors for their tokens, and the part of the code
+ * that's in view is marked. Clicking the minimap scrolls to the line clicked, and the
+ * marked area can be dragged to scroll. Search matches and selections are displayed as
+ * well by default.
+ *
+ * Only the lines that changed are redrawn on edits, and only the lines in view of the
+ * minimap are drawn, so the minimap stays cheap in long files. The colors are read from
+ * the theme when the minimap is added and when the editor's language changes.
+ *
+ * Requires styling from `solid-prism-editor/minimap.css`.
+ * @param options Options for the minimap.
+ */
+const minimap =
+	({
+		width = 100,
+		scale = 1,
+		showMatches = true,
+		showSelections = true,
+	}: MinimapOptions = {}): Extension =>
+	editor => {
+		const { container, wrapper, lines: lineElements } = editor
+		const element = minimapTemplate() as HTMLDivElement
+		const minimap = element.firstChild as HTMLDivElement
+		const canvas = minimap.firstChild as HTMLCanvasElement
+		const slider = canvas.nextSibling as HTMLDivElement
+		const probe = minimap.lastChild as HTMLDivElement
+		const context = canvas.getContext("2d")!
+		const lineHeight = scale * 2
+		const colorIndexes = new Map<string, number>()
+		const colorClasses: string[] = []
+		let colors: (string | undefined)[] = []
+		let lines: Run[][] = []
+		let lineKeys: string[] = []
+		let highlights: [from: number, to: number, color: string][][] = []
+		let offset = 0
+		let height = 0
+		let pixelRatio = 1
+		let sliderHeight = 0
+
+		const getColorIndex = (classes: string) => {
+			let index = colorIndexes.get(classes)
+			if (index == null) {
+				colorIndexes.set(classes, (index = colorClasses.length))
+				colorClasses.push(classes)
+			}
+			return index
+		}
+
+		/** Gets the theme's color for the token classes by styling nested elements. */
+		const getColor = (index: number) => {
+			let color = colors[index]
+			if (!color) {
+				let el: HTMLElement = probe
+				probe.textContent = ""
+				colorClasses[index].split(">").forEach(classes => {
+					if (classes)
+						(el = el.appendChild(document.createElement("span"))).className = "token " + classes
+				})
+				color = colors[index] = getComputedStyle(el).color
+			}
+			return color
+		}
+
+		/** Draws the lines in the range that are in view of the minimap. */
+		const draw = (from = 0, to = lines.length) => {
+			const first = Math.floor(offset / lineHeight)
+			const last = Math.min(lines.length, Math.ceil((offset + height) / lineHeight))
+			const textHeight = lineHeight * 0.75
+			from = Math.max(from, first)
+			to = Math.min(to, last)
+			if (from == first && to == last) context.clearRect(0, 0, width, height)
+			else if (from < to)
+				context.clearRect(0, from * lineHeight - offset, width, (to - from) * lineHeight)
+
+			for (let i = from; i < to; i++) {
+				const y = i * lineHeight - offset
+				highlights[i]?.forEach(([start, end, color]) => {
+					context.fillStyle = color
+					context.fillRect(start * scale, y, Math.max(end - start, 1) * scale, lineHeight)
+				})
+				for (const [column, length, color] of lines[i]) {
+					if (column * scale > width) break
+					context.fillStyle = getColor(color)
+					context.fillRect(column * scale, y, length * scale, textHeight)
+				}
+			}
+		}
+
+		/**
+		 * Updates the size of the minimap along with the position of the minimap and slider.
+		 * @returns Whether the lines must be redrawn.
+		 */
+		const layout = () => {
+			const { scrollTop, scrollHeight, clientHeight } = container
+			const total = lines.length * lineHeight
+			const ratio = scrollTop / Math.max(scrollHeight - clientHeight, 1)
+			const newOffset = Math.round(ratio * Math.max(total - clientHeight, 0))
+			const newRatio = devicePixelRatio
+			let changed = newOffset != offset
+
+			if (clientHeight != height || newRatio != pixelRatio) {
+				height = clientHeight
+				pixelRatio = newRatio
+				minimap.style.height = height + "px"
+				canvas.width = width * pixelRatio
+				canvas.height = height * pixelRatio
+				context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+				changed = true
+			}
+
+			offset = newOffset
+			sliderHeight = Math.max((clientHeight / scrollHeight) * total, 8)
+			minimap.style.marginTop = -getStyleValue(wrapper, "marginTop") + "px"
+			slider.style.top = ratio * (Math.min(height, total) - sliderHeight) + "px"
+			slider.style.height = sliderHeight + "px"
+			return changed
+		}
+
+		const update = () => {
+			if (layout()) draw()
+		}
+
+		/** Gets the column of the position on the line with tabs expanded. */
+		const getColumn = (value: string, pos: number, lineStart: number) => {
+			const tabSize = editor.props.tabSize || 2
+			let column = 0
+			for (let i = lineStart; i < pos; i++) {
+				column = value[i] == "\t" ? column + tabSize - (column % tabSize) : column + 1
+			}
+			return column
+		}
+
+		const addHighlight = (
+			result: typeof highlights,
+			lineStarts: number[],
+			from: number,
+			to: number,
+			color: string,
+		) => {
+			const value = editor.value
+			let low = 0
+			let high = lineStarts.length - 1
+			while (low < high) {
+				const mid = (low + high + 1) >> 1
+				if (lineStarts[mid] > from) high = mid - 1
+				else low = mid
+			}
+			for (let line = low; line < lineStarts.length && lineStarts[line] <= to; line++) {
+				const lineStart = lineStarts[line]
+				const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : value.length
+				const start = Math.max(from, lineStart)
+				const end = Math.min(to, lineEnd)
+				// Selected line breaks are displayed as an extra column
+				const hasLineBreak = to > lineEnd
+				if (start < end || hasLineBreak || from == to) {
+					;(result[line] ||= []).push([
+						getColumn(value, start, lineStart),
+						getColumn(value, end, lineStart) + +hasLineBreak,
+						color,
+					])
+				}
+			}
+		}
+
+		createEffect(
+			on(editor.tokens, tokens => {
+				const newLines = getRuns(tokens, editor.props.tabSize || 2, getColorIndex)
+				const newKeys = newLines.map(runs => runs.join(";"))
+				const oldCount = lines.length
+				let start = 0
+				let end1 = newLines.length
+				let end2 = oldCount
+
+				while (start < end1 && newKeys[start] == lineKeys[start]) start++
+				while (end1 > start && end2 > start && newKeys[end1 - 1] == lineKeys[end2 - 1]) {
+					end1--
+					end2--
+				}
+
+				lines = newLines
+				lineKeys = newKeys
+				// Changes to the number of lines move the lines below, so they're all redrawn
+				if (layout() || oldCount != lines.length) draw()
+				else draw(start, end1)
+			}),
+		)
+
+		createEffect(
+			on(
+				() => editor.props.language,
+				() => {
+					colors = []
+					draw()
+				},
+				{ defer: true },
+			),
+		)
+
+		onMount(() => {
+			createEffect(() => {
+				const value = editor.tokens() && editor.value
+				const matches = (showMatches && editor.extensions.searchWidget?.matches()) || []
+				const selections = showSelections ? editor.selections() : []
+				const style = getComputedStyle(minimap)
+				const lineStarts = [0]
+				const result: typeof highlights = []
+
+				for (let i = 0; (i = value.indexOf("\n", i) + 1); ) lineStarts.push(i)
+				selections.forEach(([start, end]) => {
+					if (start < end) {
+						addHighlight(
+							result,
+							lineStarts,
+							start,
+							end,
+							style.getPropertyValue("--pce-minimap-selection"),
+						)
+					}
+				})
+				matches.forEach(([start, end]) => {
+					addHighlight(
+						result,
+						lineStarts,
+						start,
+						end,
+						style.getPropertyValue("--pce-minimap-match"),
+					)
+				})
+
+				if (highlights.length || result.length) {
+					highlights = result
+					draw()
+				}
+			})
+		})
+
+		let dragStart: number | undefined
+		let scrollStart = 0
+		let dragRatio = 0
+
+		minimap.onpointerdown = e => {
+			if (e.button) return
+			const y = e.clientY - minimap.getBoundingClientRect().top
+			if (e.target != slider) {
+				const line =
+					lineElements[Math.min(Math.floor((y + offset) / lineHeight), lines.length - 1) + 1]
+				if (line) {
+					container.scrollTop =
+						getStyleValue(wrapper, "marginTop") +
+						line.offsetTop +
+						line.offsetHeight / 2 -
+						container.clientHeight / 2
+				}
+			}
+			dragStart = e.clientY
+			scrollStart = container.scrollTop
+			dragRatio =
+				(container.scrollHeight - container.clientHeight) /
+				Math.max(Math.min(height, lines.length * lineHeight) - sliderHeight, 1)
+			minimap.setPointerCapture(e.pointerId)
+			minimap.classList.add("pce-minimap-dragging")
+			preventDefault(e)
+		}
+
+		minimap.onpointermove = e => {
+			if (dragStart != null) container.scrollTop = scrollStart + (e.clientY - dragStart) * dragRatio
+		}
+
+		minimap.onpointerup = minimap.onpointercancel = () => {
+			dragStart = undefined
+			minimap.classList.remove("pce-minimap-dragging")
+		}
+
+		minimap.style.width = width + "px"
+		container.addEventListener("scroll", update, { passive: true })
+
+		const observer = window.ResizeObserver && new ResizeObserver(update)
+		observer?.observe(container)
+
+		onCleanup(() => {
+			container.removeEventListener("scroll", update)
+			observer?.disconnect()
+		})
+
+		return element
+	}
+
+export { minimap }
@@ -0,0 +1,370 @@
+/** @module multi-selection */
+
+import { createEffect, onCleanup } from "solid-js"
+import { mapPosition, preventDefault, template } from "../../core"
+import {
+	EditorChange,
+	Extension,
+	InputSelection,
+	KeyCommandCallback,
+	PrismEditor,
+} from "../../types"
+import { getLineBefore, getLines, prevSelection } from "../../utils"
+import { addListener, getLineEnd, getLineStart } from "../../utils/local"
+import { searchTemplate } from "../search/search"
+
+const selectionTemplate = template("<span> ")
+
+const wordRegex = /[_\p{N}\p{L}]/u
+
+const isWordChar = (char?: string) => !!char && wordRegex.test(char)
+
+/** Returns the position of the selection's head followed by the position of its anchor. */
+const getHead = ([start, end, dir]: InputSelection) =>
+	dir == "backward" ? ([start, end] as const) : ([end, start] as const)
+
+const moveHead = ([start, end, dir]: InputSelection, head: number, extend?: boolean) => {
+	if (!extend) return [head, head, "none"] as InputSelection
+	const anchor = getHead([start, end, dir])[1]
+	return (head < anchor ? [head, anchor, "backward"] : [anchor, head, "forward"]) as InputSelection
+}
+
+/** Gets the position in the line above or below the position with the same column. */
+const verticalPosition = (value: string, pos: number, down?: boolean) => {
+	const lineStart = getLineStart(value, pos)
+	const lineEnd = getLineEnd(value, pos)
+	const column = pos - lineStart
+	if (down ? lineEnd == value.length : !lineStart) return -1
+	const newStart = down ? lineEnd + 1 : getLineStart(value, lineStart - 1)
+	return Math.min(newStart + column, getLineEnd(value, newStart))
+}
+
+const getWord = (value: string, pos: number): [number, number] => {
+	let start = pos
+	let end = pos
+	while (isWordChar(value[start - 1])) start--
+	while (isWordChar(value[end])) end++
+	return [start, end]
+}
+
+/**
+ * Adds a new selection for the next occurrence of the text in the primary selection.
+ * If the primary selection is empty, the words at each cursor are selected instead.
+ * @returns Whether or not the selections changed.
+ */
+const addNextOccurrence = (editor: PrismEditor) => {
+	const selections = editor.getSelections()
+	const value = editor.value
+	const [start, end] = selections[0]
+
+	if (start == end) {
+		const words = selections.map(([start, end]) => {
+			const [wordStart, wordEnd] = getWord(value, start)
+			return (
+				start == end ? [wordStart, wordEnd, "forward"] : [start, end, "forward"]
+			) as InputSelection
+		})
+		if (words.some(([start, end]) => start < end)) {
+			editor.setSelections(words)
+			return true
+		}
+	} else {
+		const text = value.slice(start, end)
+		const isSelected = (pos: number) => selections.some(([start]) => start == pos)
+		let pos = end
+
+		for (let i = 0; i < 2; i++) {
+			while ((pos = value.indexOf(text, pos)) + 1) {
+				if (!isSelected(pos)) {
+					editor.setSelections([[pos, pos + text.length, "forward"], ...selections])
+					return true
+				}
+				pos++
+			}
+			pos = 0
+		}
+	}
+	return false
+}
+
+/**
+ * Selects all occurrences of the text in the primary selection. If the primary selection
+ * is empty, all occurrences of the word at the cursor are selected.
+ */
+const selectAllOccurrences = (editor: PrismEditor) => {
+	const value = editor.value
+	let [start, end] = editor.getSelection()
+	if (start == end) [start, end] = getWord(value, start)
+
+	const text = value.slice(start, end)
+	if (text) {
+		const selections: InputSelection[] = [[start, end, "forward"]]
+		for (let pos = 0; (pos = value.indexOf(text, pos)) + 1; pos += text.length) {
+			if (pos != start) selections.push([pos, pos + text.length, "forward"])
+		}
+		editor.setSelections(selections)
+	}
+}
+
+/**
+ * Adds a cursor on the line above or below the first or last selection.
+ * @returns Whether or not a cursor was added.
+ */
+const addCursorVertically = (editor: PrismEditor, down?: boolean) => {
+	const selections = editor.getSelections()
+	const sorted = selections.slice().sort((a, b) => a[0] - b[0])
+	const head = getHead(sorted[down ? sorted.length - 1 : 0])[0]
+	const pos = verticalPosition(editor.value, head, down)
+
+	if (pos + 1) editor.setSelections([[pos, pos, "none"], ...selections])
+	return pos + 1 > 0
+}
+
+/**
+ * Extension adding support for multiple cursors and selections to the editor. The
+ * selections are stored by the editor and can be accessed with `editor.selections()`
+ * and changed with `editor.setSelections()`.
+ *
+ * This extension displays the extra cursors and selections, and makes typing, deleting,
+ * pasting, cutting and moving the cursors work with all selections. It also adds the
+ * following commands:
+ *
+ * - Alt+Click (Option+Click on MacOS): Add cursor
+ * - Ctrl+D (Cmd+D on MacOS): Add selection at the next occurrence
+ * - Ctrl+Shift+L (Cmd+Shift+L on MacOS): Select all occurrences
+ * - Ctrl+Alt+ArrowUp/Down (Cmd+Option+ArrowUp/Down on MacOS): Add cursor above/below
+ * - Escape: Remove extra selections
+ *
+ * Requires styling from `solid-prism-editor/multi-selection.css`.
+ */
+const multiSelections = (): Extension => editor => {
+	const container = searchTemplate() as HTMLDivElement
+	const nodes = container.childNodes
+	const { getSelections, setSelections } = editor
+
+	const scroll = () => editor.extensions.cursor?.scrollIntoView()
+	const hasExtra = () => !!getSelections()[1]
+
+	const edit = (getText: (index: number) => string, deleteForwards?: boolean) => {
+		const value = editor.value
+		const changes = getSelections().map(([from, to], i): EditorChange => {
+			if (deleteForwards != null && from == to) {
+				if (deleteForwards) to += value.codePointAt(to)! > 0xffff ? 2 : 1
+				else if (from) from -= from > 1 && value.codePointAt(from - 2)! > 0xffff ? 2 : 1
+			}
+			return { from, to: Math.min(to, value.length), insert: getText(i) }
+		})
+		const sorted = changes.slice().sort((a, b) => a.from - b.from)
+
+		editor.dispatch(
+			changes,
+			changes.map(change => {
+				const pos = mapPosition(change.to, sorted)
+				return [pos, pos, "none"]
+			}),
+		)
+		scroll()
+	}
+
+	const moveSelections = (e: KeyboardEvent) => {
+		const key = e.key
+		const value = editor.value
+		const extend = e.shiftKey
+		setSelections(
+			getSelections().map(selection => {
+				const [start, end] = selection
+				const head = getHead(selection)[0]
+				if (key == "ArrowLeft" || key == "ArrowRight") {
+					const isLeft = key == "ArrowLeft"
+					if (start < end && !extend) return moveHead(selection, isLeft ? start : end)
+					return moveHead(
+						selection,
+						Math.max(0, Math.min(value.length, head + (isLeft ? -1 : 1))),
+						extend,
+					)
+				}
+				if (key == "Home") {
+					const lineStart = getLineStart(value, head)
+					const indentEnd = lineStart + getLineBefore(value, getLineEnd(value, head)).search(/\S|$/)
+					return moveHead(selection, head == indentEnd ? lineStart : indentEnd, extend)
+				}
+				if (key == "End") return moveHead(selection, getLineEnd(value, head), extend)
+
+				const pos = verticalPosition(value, head, key == "ArrowDown")
+				return moveHead(selection, pos + 1 ? pos : key == "ArrowDown" ? value.length : 0, extend)
+			}),
+		)
+		scroll()
+	}
+
+	const copy = (e: ClipboardEvent) => {
+		const value = editor.value
+		const selections = getSelections().sort((a, b) => a[0] - b[0])
+		const copyLines = selections.every(([start, end]) => start == end)
+		e.clipboardData!.setData(
+			"text/plain",
+			selections
+				.map(([start, end]) => (copyLines ? getLines(value, start)[0][0] : value.slice(start, end)))
+				.join("\n"),
+		)
+		preventDefault(e)
+		return copyLines
+	}
+
+	const addCursor = (down: boolean) => () => {
+		if (addCursorVertically(editor, down)) scroll()
+		return true
+	}
+
+	/** Creates a command that only runs when there are extra selections. */
+	const whenMultiple =
+		(command: (e: KeyboardEvent) => void): KeyCommandCallback =>
+		e => {
+			if (hasExtra()) {
+				command(e)
+				return true
+			}
+		}
+
+	editor.keymap.add([
+		{
+			key: "Mod-d",
+			precedence: "high",
+			run() {
+				if (addNextOccurrence(editor)) scroll()
+				return true
+			},
+		},
+		{
+			key: "Mod-Shift-l",
+			precedence: "high",
+			run() {
+				selectAllOccurrences(editor)
+				return true
+			},
+		},
+		{ key: "Alt-Mod-ArrowUp", precedence: "high", run: addCursor(false) },
+		{ key: "Alt-Mod-ArrowDown", precedence: "high", run: addCursor(true) },
+		{
+			key: "Escape",
+			precedence: "high",
+			run: whenMultiple(() => setSelections([editor.getSelection()])),
+		},
+		...["ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown", "Home", "End"].flatMap(key =>
+			[key, "Shift-" + key].map(key => ({
+				key,
+				precedence: "high" as const,
+				run: whenMultiple(moveSelections),
+			})),
+		),
+	])
+
+	const cleanUps = [
+		addListener(
+			editor,
+			"beforeinput",
+			e => {
+				if (prevSelection || !hasExtra() || editor.props.readOnly) return
+				const inputType = e.inputType
+				const data = e.data ?? e.dataTransfer?.getData("text/plain") ?? ""
+
+				if (inputType == "insertText" || inputType == "insertReplacementText") {
+					edit(() => data)
+				} else if (inputType == "insertLineBreak" || inputType == "insertParagraph") {
+					edit(() => "\n")
+				} else if (inputType == "insertFromPaste") {
+					// Each selection gets its own line if the number of lines and selections match
+					const lines = data.split(/\r\n?|\n/)
+					const starts = getSelections().map(selection => selection[0])
+					const sorted = starts.slice().sort((a, b) => a - b)
+					edit(i => (lines.length == starts.length ? lines[sorted.indexOf(starts[i])] : data))
+				} else if (inputType == "deleteContentBackward" || inputType == "deleteContentForward") {
+					edit(() => "", inputType.length > 21)
+				} else if (/history/.test(inputType)) return
+				else {
+					// Unsupported input types only affect the primary selection
+					setSelections([editor.getSelection()])
+					return
+				}
+				preventDefault(e)
+			},
+			true,
+		),
+		addListener(
+			editor,
+			"copy",
+			e => {
+				if (hasExtra()) copy(e)
+			},
+			true,
+		),
+		addListener(
+			editor,
+			"cut",
+			e => {
+				if (hasExtra() && !editor.props.readOnly) {
+					if (copy(e)) {
+						const value = editor.value
+						const ranges = getSelections()
+							.map(([start]) => {
+								const end = getLineEnd(value, start)
+								return [getLineStart(value, start), end + +(end < value.length)]
+							})
+							.sort((a, b) => a[0] - b[0])
+							.filter((range, i, ranges) => !i || range[0] >= ranges[i - 1][1])
+						editor.dispatch(ranges.map(([from, to]) => ({ from, to, insert: "" })))
+					} else edit(() => "")
+				}
+			},
+			true,
+		),
+		addListener(editor, "mousedown", e => {
+			if (e.button) return
+			if (e.altKey) {
+				const selections = getSelections()
+				document.addEventListener(
+					"mouseup",
+					() => setSelections([editor.getSelection(), ...selections]),
+					{ once: true },
+				)
+			} else if (hasExtra()) setSelections([editor.getSelection()])
+		}),
+	]
+
+	createEffect(() => {
+		const extra = editor.selections().slice(1)
+		const value = editor.value
+		let i = 0
+		let pos = 0
+
+		container.style.display = extra[0] ? "" : "none"
+		if (extra[0]) {
+			for (let [start, end, dir] of extra) {
+				let before = nodes[i] as Text
+				let span = nodes[i + 1] as HTMLSpanElement
+				if (!span) {
+					container.append(selectionTemplate(), "")
+					before = nodes[i] as Text
+					span = nodes[i + 1] as HTMLSpanElement
+				}
+				before.data = value.slice(pos, start)
+				;(span.firstChild as Text).data = value.slice(start, (pos = end))
+				span.className = `pce-selection pce-caret-${dir == "backward" ? "start" : "end"}`
+				i += 2
+			}
+			;(nodes[i] as Text).data = value.slice(pos)
+			while (nodes[i + 1]) nodes[i + 1].remove()
+		}
+	})
+
+	onCleanup(() => {
+		cleanUps.forEach(cleanUp => cleanUp())
+		if (hasExtra()) setSelections([editor.getSelection()])
+	})
+
+	container.className = "pce-selections"
+
+	return container
+}
+
+export { multiSelections, addNextOccurrence, selectAllOccurrences, addCursorVertically }
@@ -0,0 +1,70 @@
+/** @vitest-environment jsdom */
+
+import { describe, expect, test } from "vitest"
+import { createRoot } from "solid-js"
+import { ProtectedRange, protectedRanges } from "."
+import { Editor } from "../../core"
+import { PrismEditor } from "../../types"
+
+globalThis.ResizeObserver ||= class {
+	observe() {}
+	unobserve() {}
+	disconnect() {}
+}
+
+// jsdom doesn't implement execCommand. Its user agent makes the editor insert HTML like in
+// Safari, which ignores the new line the editor adds at the end
+document.execCommand = (command, _, html = "") => {
+	const textarea = document.activeElement as HTMLTextAreaElement
+	const text =
+		command == "delete" ? "" : html.slice(0, -1).replace(/&lt;/g, "<").replace(/&amp;/g, "&")
+	textarea.setRangeText(text, textarea.selectionStart, textarea.selectionEnd, "end")
+	textarea.dispatchEvent(new InputEvent("input", { inputType: "insertText", data: text }))
+	return true
+}
+
+const createEditor = (value: string, ranges: ProtectedRange[]) => {
+	let editor!: PrismEditor
+	createRoot(() =>
+		Editor({ value, extensions: [protectedRanges(ranges)], onMount: e => (editor = e) }),
+	)
+	document.body.append(editor.container)
+	return editor
+}
+
+describe("protectedRanges", () => {
+	test("blocks insertions inside a range but not at its edges", () => {
+		const editor = createEditor("a\nlocked\nb", [{ from: 2, to: 8 }])
+
+		editor.dispatch([{ from: 4, to: 4, insert: "x" }])
+		expect(editor.value).toBe("a\nlocked\nb")
+
+		editor.dispatch([{ from: 8, to: 8, insert: "!" }])
+		editor.dispatch([{ from: 2, to: 2, insert: "!" }])
+		expect(editor.value).toBe("a\n!locked!\nb")
+		expect(editor.extensions.protectedRanges!.ranges()).toEqual([{ from: 3, to: 9 }])
+	})
+
+	test("clips deletions to the unprotected code", () => {
+		const editor = createEditor("ab[locked]cd", [{ from: 2, to: 10 }])
+
+		editor.dispatch([{ from: 1, to: 11, insert: "" }])
+		expect(editor.value).toBe("a[locked]d")
+	})
+
+	test("splits replacements keeping the protected code in place", () => {
+		const editor = createEditor("first\nlocked\nlast", [{ from: 6, to: 12 }])
+
+		editor.dispatch([{ from: 0, to: 17, insert: "last\nlocked\nfirst" }])
+		expect(editor.value).toBe("last\nlocked\nfirst")
+		expect(editor.extensions.protectedRanges!.ranges()).toEqual([{ from: 5, to: 11 }])
+	})
+
+	test("blocks replacements modifying the protected code", () => {
+		const editor = createEditor("first\nlocked\nlast", [{ from: 6, to: 12 }])
+
+		editor.dispatch([{ from: 0, to: 17, insert: "first\nLocked\nlast" }])
+		editor.dispatch([{ from: 8, to: 17, insert: "x" }])
+		expect(editor.value).toBe("first\nlocked\nlast")
+	})
+})
@@ -0,0 +1,130 @@
+/** @module protected-ranges */
+
+import { onCleanup } from "solid-js"
+import { EditorChange, Extension } from "../../types"
+
+export type ProtectedRange = {
+	/** Start of the protected code. */
+	from: number
+	/** End of the protected code. */
+	to: number
+}
+
+export interface ProtectedRanges {
+	/**
+	 * Reactive accessor for the protected ranges sorted by their position. Their positions
+	 * are updated when code is inserted or removed around them.
+	 */
+	ranges(): ProtectedRange[]
+	/** Replaces the protected ranges. */
+	set(ranges: ProtectedRange[]): void
+	/**
+	 * Returns whether a change to the range would modify protected code. An empty range is
+	 * protected if it's strictly inside a protected range.
+	 */
+	isProtected(from: number, to?: number): boolean
+}
+
+/**
+ * Splits a replacement into changes that keep the protected code if the inserted text
+ * contains it at the same place. Returns undefined if that isn't possible.
+ */
+const splitChange = (
+	{ from, to, insert }: EditorChange,
+	ranges: ProtectedRange[],
+	value: string,
+): EditorChange[] | undefined => {
+	const result: EditorChange[] = []
+	let start = from
+	let offset = 0
+
+	for (const range of ranges) {
+		const overlapStart = Math.max(range.from, from)
+		const overlapEnd = Math.min(range.to, to)
+		if (overlapStart >= overlapEnd) continue
+
+		const text = value.slice(overlapStart, overlapEnd)
+		const index = overlapEnd == to ? insert.length - text.length : insert.indexOf(text, offset)
+		if (
+			index < offset ||
+			insert.slice(index, index + text.length) != text ||
+			(overlapStart == from && index)
+		)
+			return
+
+		result.push({ from: start, to: overlapStart, insert: insert.slice(offset, index) })
+		start = overlapEnd
+		offset = index + text.length
+	}
+
+	result.push({ from: start, to, insert: insert.slice(offset) })
+	return result.filter(change => change.from < change.to || change.insert)
+}
+
+/**
+ * Extension that protects ranges of code from being edited while the rest of the code
+ * stays editable. Typing, pasting and dropping inside the ranges is blocked, along with
+ * commands and other {@link PrismEditor.dispatch} calls that would modify them. Deletions
+ * overlapping the ranges are clipped to the unprotected code. A replacement is allowed if
+ * the protected code is unchanged in the result, which lets lines be moved around it.
+ *
+ * Code can be inserted right before or after a range without becoming protected, and the
+ * ranges are mapped through edits around them. Ranges that become empty are removed. The
+ * protected code is marked with the `pce-protected` class.
+ *
+ * Once added, the extension can be accessed from `editor.extensions.protectedRanges`.
+ *
+ * Requires styling from `solid-prism-editor/protected-ranges.css`.
+ * @param ranges Initial protected ranges.
+ */
+const protectedRanges =
+	(ranges: ProtectedRange[] = []): Extension =>
+	editor => {
+		const toDecorations = (ranges: ProtectedRange[]) =>
+			ranges
+				.map(({ from, to }) => ({ from, to, class: "pce-protected" }))
+				.sort((a, b) => a.from - b.from)
+
+		const decorations = editor.addDecorations(toDecorations(ranges))
+
+		const getOverlapping = (from: number, to: number) =>
+			decorations
+				.decorations()
+				.filter(range =>
+					from < to ? from < range.to && to > range.from : from > range.from && from < range.to,
+				)
+
+		editor.addChangeFilter((changes, value) =>
+			changes.flatMap(change => {
+				const { from, to, insert } = change
+				const overlapping = getOverlapping(from, to)
+				if (!overlapping[0]) return [change]
+				if (from == to) return []
+				if (!insert) {
+					const result: EditorChange[] = []
+					let start = from
+					for (const range of overlapping) {
+						if (start < range.from) result.push({ from: start, to: range.from, insert })
+						start = Math.max(start, range.to)
+					}
+					if (start < to) result.push({ from: start, to, insert })
+					return result
+				}
+				return splitChange(change, overlapping, value) || []
+			}),
+		)
+
+		editor.extensions.protectedRanges = {
+			ranges: () => decorations.decorations().map(({ from, to }) => ({ from, to })),
+			set(ranges) {
+				decorations.set(toDecorations(ranges))
+			},
+			isProtected: (from, to = from) => !!getOverlapping(from, to)[0],
+		}
+
+		onCleanup(() => {
+			delete editor.extensions.protectedRanges
+		})
+	}
+
+export { protectedRanges }
@@ -118,33 +118,7 @@ const createReplaceAPI = (editor: PrismEditor): ReplaceAPI => {
 			}
 		},
 		replaceAll(str: string) {
-			if (!matches[0]) return
-			let value = editor.value
-			let [start, end] = getSelection()
-			let newLen = str.length
-			let newStart = start
-			let newEnd = end
-			let newValue = ""
-			let l = matches.length
-
-			for (let i = 0; i < l; i++) {
-				const [matchStart, matchEnd] = matches[i]
-				const lengthDiff = newLen - matchEnd + matchStart
-				const move = (pos: number) =>
-					matchStart > pos
-						? 0
-						: pos >= matchEnd
-						? lengthDiff
-						: lengthDiff < 0 && pos > matchStart + newLen
-						? newLen + matchStart - pos
-						: 0
-
-				newEnd += move(end)
-				newStart += move(start)
-				newValue += i ? value.slice(matches[i - 1][1], matchStart) + str : str
-			}
-
-			insertText(editor, newValue, matches[0][0], matches[l - 1][1], newStart, newEnd)
+			editor.dispatch(matches.map(([from, to]) => ({ from, to, insert: str })))
 		},
 	})
 }
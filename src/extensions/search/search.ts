@@ -1,4 +1,4 @@
-import { template } from "solid-js/web"
+import { template } from "../../core"
 import { PrismEditor } from "../../types"
 import { regexEscape } from "../../utils"
 
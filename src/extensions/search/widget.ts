@@ -1,12 +1,18 @@
 import { createEffect, createSignal, on, onCleanup, onMount, untrack } from "solid-js"
-import { isChrome, isMac, isWebKit, numLines, preventDefault } from "../../core"
-import { Extension, InputSelection } from "../../types"
+import {
+	isChrome,
+	isMac,
+	isWebKit,
+	numLines,
+	preventDefault,
+	template as _template,
+} from "../../core"
+import { Extension, InputSelection, KeyCommandCallback } from "../../types"
 import { createReplaceAPI } from "./replace"
 import { addListener, getLineEnd, getLineStart } from "../../utils/local"
-import { getModifierCode, regexEscape } from "../../utils"
+import { regexEscape } from "../../utils"
 import { getStyleValue } from "../../utils/other"
 import { TokenStream } from "../../prism"
-import { template as _template } from "solid-js/web"
 
 const shortcut = ` (Alt+${isMac ? "Cmd+" : ""}`
 
@@ -30,6 +36,8 @@ export interface SearchWidget {
 	 * @param focusInput Whether the widgets's search input should gain focus. Defaults to true.
 	 */
 	open: (focusInput?: boolean) => void
+	/** Reactive accessor for the positions of the search matches. Empty when the widget is closed. */
+	matches(): [number, number][]
 }
 
 export const searchWidget = (): Extension => editor => {
@@ -76,12 +84,7 @@ export const searchWidget = (): Extension => editor => {
 	const replaceContainer = replaceAPI.container
 
 	const [isOpen, setOpen] = createSignal(false)
-	const keyCodeButtonMap: Record<string, HTMLButtonElement> = {
-		80 /* P */: matchCaseEl,
-		87 /* W */: wholeWordEl,
-		82 /* R */: useRegExpEl,
-		76 /* L */: inSelectionEl,
-	}
+	const [matches, setMatches] = createSignal<[number, number][]>([])
 
 	const startSearch = (selectMatch?: boolean) => {
 		if (selectMatch && !isWebKit) textarea.setSelectionRange(...prevUserSelection)
@@ -97,6 +100,7 @@ export const searchWidget = (): Extension => editor => {
 		current.data = (index + 1) as any
 		total.data = replaceAPI.matches.length as any
 		findContainer.classList.toggle("pce-error", !!error)
+		setMatches(replaceAPI.matches.slice())
 
 		if (error) errorEl.textContent = error
 		else if (selectMatch || selectNext) replaceAPI.selectMatch(index, prevMargin)
@@ -143,24 +147,38 @@ export const searchWidget = (): Extension => editor => {
 		replaceAPI.replaceAll(replaceInput.value)
 	}
 
-	const keydown = (e: KeyboardEvent) => {
-		// F or G + Ctrl/Cmd
-		if (e.keyCode >> 1 == 35 && getModifierCode(e) == (isMac ? 0b0100 : 0b0010)) {
-			preventDefault(e)
-			open()
-			let [start, end] = getSelection()
-			let value = editor.value
-			let word =
-				value.slice(start, end) ||
-				value.slice(0, start).match(/[_\p{N}\p{L}]*$/u)![0] +
-					value.slice(start).match(/^[_\p{N}\p{L}]*/u)![0]
-			if (/^$|\n/.test(word)) startSearch()
-			else {
-				if (useRegExp) word = regexEscape(word)
-				document.execCommand("insertText", false, word)
-				findInput.select()
+	const openWithSelection = () => {
+		open()
+		let [start, end] = getSelection()
+		let value = editor.value
+		let word =
+			value.slice(start, end) ||
+			value.slice(0, start).match(/[_\p{N}\p{L}]*$/u)![0] +
+				value.slice(start).match(/^[_\p{N}\p{L}]*/u)![0]
+		if (/^$|\n/.test(word)) startSearch()
+		else {
+			if (useRegExp) word = regexEscape(word)
+			document.execCommand("insertText", false, word)
+			findInput.select()
+		}
+		return true
+	}
+
+	/** Creates a command for Enter in the find or replace input. */
+	const inputCommand =
+		(onFind?: () => void, onReplace?: () => void): KeyCommandCallback =>
+		e => {
+			const target = e.target as HTMLElement
+			if (target.tagName == "INPUT") {
+				;(target == findInput ? onFind : onReplace)?.()
+				target.focus()
+				return true
 			}
 		}
+
+	const clickCommand = (button: HTMLButtonElement) => () => {
+		button.click()
+		return true
 	}
 
 	const open = (focusInput = true) => {
@@ -184,12 +202,56 @@ export const searchWidget = (): Extension => editor => {
 			observer?.disconnect()
 			focusTextarea && textarea.focus()
 			replaceAPI.stopSearch()
+			setMatches([])
 			setOpen(false)
 			updateMargin()
 		}
 	}
 
-	const removeKeydown = addListener(editor, "keydown", keydown)
+	editor.commands.add([
+		{
+			name: "openSearch",
+			title: "Find",
+			run: openWithSelection,
+			keys: [undefined, "search"].flatMap(scope => ["Mod-f", "Mod-g"].map(key => ({ key, scope }))),
+		},
+	])
+
+	editor.keymap.add([
+		{
+			key: "Enter",
+			scope: "search",
+			run: inputCommand(() => move(true), clickCommand(replaceEl)),
+		},
+		{ key: "Shift-Enter", scope: "search", run: inputCommand(move) },
+		{
+			key: "Ctrl-Alt-Enter",
+			mac: "Cmd-Enter",
+			scope: "search",
+			run: inputCommand(undefined, clickCommand(replaceAllEl)),
+		},
+		{
+			key: "Escape",
+			scope: "search",
+			run() {
+				close()
+				return true
+			},
+		},
+		...(
+			[
+				["p", matchCaseEl],
+				["w", wholeWordEl],
+				["r", useRegExpEl],
+				["l", inSelectionEl],
+			] as const
+		).map(([key, button]) => ({
+			key: "Alt-" + key,
+			mac: "Alt-Cmd-" + key,
+			scope: "search",
+			run: clickCommand(button),
+		})),
+	])
 	const removeBeforeinput = addListener(editor, "beforeinput", () => {
 		if (isOpen() && searchSelection) currentSelection = getSelection()
 	})
@@ -263,6 +325,7 @@ export const searchWidget = (): Extension => editor => {
 				startSearch()
 			},
 			close,
+			matches,
 		}
 	})
 
@@ -279,25 +342,7 @@ export const searchWidget = (): Extension => editor => {
 
 	findInput.oninput = () => isOpen() && startSearch(true)
 
-	searchContainer.addEventListener("keydown", e => {
-		const shortcut = getModifierCode(e)
-		const target = e.target as HTMLElement
-		const keyCode = e.keyCode
-		const isFind = target == findInput
-		if (shortcut == (isMac ? 5 : 1)) {
-			if (keyCodeButtonMap[keyCode]) {
-				preventDefault(e)
-				keyCodeButtonMap[keyCode].click()
-			}
-		} else if (keyCode == 13 && target.tagName == "INPUT") {
-			preventDefault(e)
-			if (!shortcut) isFind ? move(true) : replaceEl.click()
-			else if (shortcut == 8 && isFind) move()
-			else if (shortcut == (isMac ? 4 : 3) && !isFind) replaceAllEl.click()
-			target.focus()
-		} else if (!shortcut && keyCode == 27) close()
-		else keydown(e)
-	})
+	searchContainer.addEventListener("keydown", e => editor.keymap.handle(e, "search"))
 
 	if (isChrome) {
 		searchContainer.addEventListener("focusin", e => {
@@ -309,7 +354,6 @@ export const searchWidget = (): Extension => editor => {
 	}
 
 	onCleanup(() => {
-		removeKeydown()
 		removeBeforeinput()
 		observer?.disconnect()
 		delete editor.extensions.searchWidget
@@ -0,0 +1,139 @@
+/** @module sticky-scroll */
+
+import { onCleanup } from "solid-js"
+import { numLines, preventDefault, template } from "../../core"
+import { Extension } from "../../types"
+import { BracketMatcher } from "../match-brackets"
+import { TagMatcher } from "../match-tags"
+import { getStyleValue } from "../../utils/other"
+import { Scope, trackScopes } from "../../utils/local"
+
+const stickyTemplate = template(
+	"<div style=display:flex;align-items:flex-start aria-hidden=true><div class=pce-sticky-scroll>",
+)
+
+/** Start and end line of a block. */
+type Block = [start: number, end: number]
+
+/**
+ * Gets the lines of the scopes spanning multiple lines. Of the scopes starting on the same
+ * line, the one ending last is used.
+ */
+const getBlocks = (value: string, scopes: Scope[]) => {
+	const ends: number[] = []
+	for (const [from, to] of scopes) {
+		const start = numLines(value, 0, from)
+		const end = numLines(value, from, to) + start - 1
+		if (end > start && !(ends[start] >= end)) ends[start] = end
+	}
+
+	const blocks: Block[] = []
+	ends.forEach((end, start) => blocks.push([start, end]))
+	return blocks
+}
+
+/**
+ * Extension that pins the first lines of the blocks enclosing the top line in view to the
+ * top of the editor while scrolling. Clicking a pinned line moves the cursor to it and
+ * scrolls it into view.
+ *
+ * The blocks are found using the {@link BracketMatcher} and {@link TagMatcher}, so the
+ * `matchBrackets()` and `matchTags()` extensions should be added as well. Parentheses are
+ * ignored like with code folding. In Python and YAML, indentation is used to find blocks.
+ *
+ * Requires styling from `solid-prism-editor/sticky-scroll.css`.
+ * @param maxLines Maximum number of lines pinned at once. Defaults to 5.
+ */
+const stickyScroll =
+	(maxLines = 5): Extension =>
+	editor => {
+		const { container, wrapper, lines } = editor
+		const element = stickyTemplate() as HTMLDivElement
+		const sticky = element.firstChild as HTMLDivElement
+		let blocks: Block[] = []
+		let pinned: number[] = []
+		let pinnedElements: HTMLDivElement[] = []
+
+		/**
+		 * Gets the top and height of the line relative to the wrapper. Lines outside the
+		 * viewport aren't in the document with virtualization, but all lines have the same
+		 * height then.
+		 */
+		const measure = (line: number) => {
+			const el = lines[line]
+			// The active line is always rendered
+			const height = el.isConnected ? el.offsetHeight : lines[editor.activeLine].offsetHeight
+			return [el.isConnected ? el.offsetTop : (line - 1) * height, height]
+		}
+
+		/** Updates which lines are pinned. Pass `true` to render the pinned lines again. */
+		const update = (force?: boolean) => {
+			const top = container.scrollTop - getStyleValue(wrapper, "marginTop")
+			const newPinned: number[] = []
+			let height = 0
+			let push = 0
+
+			for (const [start, end] of blocks) {
+				if (!lines[start] || !lines[end]) break
+				const [startTop, startHeight] = measure(start)
+				const [endTop] = measure(end)
+				if (startTop >= top + height || newPinned.length == maxLines) break
+				if (endTop > top + height) {
+					newPinned.push(start)
+					// The last pinned line is pushed up by the end of its block
+					push = Math.max(top + height + startHeight - endTop, 0)
+					height += startHeight
+					if (push) break
+				}
+			}
+
+			if (force || newPinned.join() != pinned.join()) {
+				pinned = newPinned
+				pinnedElements = pinned.map(line => {
+					const clone = lines[line].cloneNode(true) as HTMLDivElement
+					clone.className = "pce-line"
+					return clone
+				})
+				sticky.replaceChildren(...pinnedElements)
+			}
+
+			const last = pinnedElements[pinnedElements.length - 1]
+			if (last) last.style.top = push ? -push + "px" : ""
+		}
+
+		const scroll = () => update()
+
+		sticky.onpointerdown = e => {
+			const index = pinnedElements.findIndex(el => el.contains(e.target as Node))
+			const line = pinned[index]
+			if (e.button || !lines[line]) return
+			let start = 0
+			let offset = getStyleValue(wrapper, "marginTop") + measure(line)[0]
+			for (let i = 1; i < line; i++) start = editor.value.indexOf("\n", start) + 1
+			// Scrolling the line to just below the lines pinned above it
+			for (let i = 0; i < index; i++) offset -= pinnedElements[i].offsetHeight
+			editor.setSelection(start)
+			editor.textarea.focus()
+			container.scrollTop = offset
+			preventDefault(e)
+		}
+
+		trackScopes(editor, scopes => {
+			blocks = getBlocks(editor.value, scopes)
+			update(true)
+		})
+
+		container.addEventListener("scroll", scroll, { passive: true })
+
+		const observer = window.ResizeObserver && new ResizeObserver(scroll)
+		observer?.observe(container)
+
+		onCleanup(() => {
+			container.removeEventListener("scroll", scroll)
+			observer?.disconnect()
+		})
+
+		return element
+	}
+
+export { stickyScroll }
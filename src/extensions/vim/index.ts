@@ -0,0 +1,708 @@
+/** @module vim */
+
+import { createEffect, createSignal, on, onCleanup, untrack } from "solid-js"
+import { template } from "../../core"
+import { diffText } from "../../prism/incremental"
+import { EditorChange, Extension } from "../../types"
+import { getLines, insertText } from "../../utils"
+import { getLineEnd, getLineStart } from "../../utils/local"
+import { createSearchAPI, searchTemplate } from "../search/search"
+import { Motion, charMotions, firstNonBlank, getOffsetLine, motions, toLine } from "./motions"
+
+const barTemplate = template(
+	"<div style=display:none;align-items:flex-end><div class=pce-vim-bar><span class=pce-vim-mode> </span><input class=pce-vim-input autocorrect=off autocapitalize=off spellcheck=false aria-label=Search><span class=pce-vim-keys> ",
+)
+const cursorTemplate = template("<span class=pce-vim-cursor> ")
+
+export type VimMode = "normal" | "insert" | "visual" | "visual-line"
+
+/** Text stored in a register. */
+export type VimRegister = {
+	text: string
+	/** Whether the text contains whole lines. Linewise text is pasted on separate lines. */
+	linewise: boolean
+}
+
+export interface Vim {
+	/** Reactive accessor for the current mode. */
+	mode(): VimMode
+	/** Switches to the mode and clears any pending keys. */
+	setMode(mode: VimMode): void
+	/**
+	 * Registers by their name. The unnamed register `"` holds the last deleted or yanked text,
+	 * and register `0` holds the last yanked text.
+	 */
+	readonly registers: Record<string, VimRegister>
+}
+
+/** Keys with a name that are handled outside insert mode. */
+const namedKeys: Record<string, string> = {
+	ArrowLeft: "h",
+	ArrowRight: "l",
+	ArrowUp: "k",
+	ArrowDown: "j",
+	Home: "0",
+	End: "$",
+	Enter: "+",
+	Backspace: "h",
+	" ": "l",
+}
+
+const operators = "dcy<>"
+/** Commands in visual mode that run an operator on the selection. */
+const visualOperators: Record<string, string> = {
+	x: "d",
+	X: "d",
+	D: "d",
+	s: "c",
+	S: "c",
+	C: "c",
+	Y: "y",
+}
+const changes = "xXDCsSpPJr~iaIAoO"
+const modeLabels: Partial<Record<VimMode, string>> = {
+	insert: "-- INSERT --",
+	visual: "-- VISUAL --",
+	"visual-line": "-- VISUAL LINE --",
+}
+
+/** Parses the count at the index. Returns the count, or 0 if there's none, and the next index. */
+const parseCount = (keys: string[], i: number): [number, number] => {
+	let count = ""
+	while (/^\d$/.test(keys[i]) && (count || keys[i] != "0")) count += keys[i++]
+	return [+count, i]
+}
+
+const swapCase = (text: string) =>
+	text.replace(/\p{L}/gu, char => {
+		const upper = char.toUpperCase()
+		return char == upper ? char.toLowerCase() : upper
+	})
+
+/**
+ * Extension adding Vim keybindings with normal, insert, visual and visual-line modes.
+ * The editor starts in normal mode.
+ *
+ * The following keys are supported:
+ * - Motions: `h`, `j`, `k`, `l`, `w`, `W`, `b`, `B`, `e`, `E`, `0`, `^`, `$`, `+`, `-`,
+ * `gg`, `G`, `f`, `t`, `F`, `T`, `;`, `,` and `%`. The `%` motion requires the
+ * `matchBrackets()` extension.
+ * - Operators followed by a motion or repeated to operate on lines: `d`, `c`, `y`, `>` and `<`.
+ * - Commands: `x`, `X`, `D`, `C`, `s`, `S`, `Y`, `p`, `P`, `J`, `r`, `~`, `i`, `a`, `I`, `A`,
+ * `o`, `O`, `u`, `Ctrl+r`, `v`, `V` and `.`.
+ * - Search: `/`, `?`, `n` and `N`. Searches are case-sensitive regular expressions.
+ *
+ * Counts can be typed before motions, operators and commands, and a register can be
+ * selected with `"` followed by its name. Undo and redo require the `editHistory()`
+ * extension.
+ *
+ * Outside insert mode, a block cursor is displayed, and a bar at the bottom of the editor
+ * shows the mode and any pending keys. Key presses with Ctrl, Alt or Meta other than
+ * `Ctrl+r` are ignored, so other key bindings keep working. Escape in normal mode
+ * blurs the editor when there's nothing to cancel. The keys are handled by a binding with the
+ * key `Any` and the highest precedence, so bindings added later with the same precedence
+ * run before it.
+ *
+ * Once added, the extension can be accessed from `editor.extensions.vim`.
+ *
+ * Requires styling from `solid-prism-editor/vim.css` and
+ * `solid-prism-editor/search.css` to highlight the search matches.
+ */
+const vim = (): Extension => editor => {
+	const textarea = editor.textarea
+	const searchAPI = createSearchAPI(editor)
+	const searchContainer = searchAPI.container
+	const barContainer = barTemplate() as HTMLDivElement
+	const bar = barContainer.firstChild as HTMLDivElement
+	const modeEl = bar.firstChild as HTMLSpanElement
+	const input = modeEl.nextSibling as HTMLInputElement
+	const keysEl = bar.lastChild as HTMLSpanElement
+	const cursorContainer = searchTemplate() as HTMLDivElement
+	const cursorEl = cursorTemplate() as HTMLSpanElement
+	const cursorNodes = cursorContainer.childNodes
+	const registers: Record<string, VimRegister> = {}
+
+	const [mode, setModeSignal] = createSignal<VimMode>("normal")
+	const [head, setHead] = createSignal(0)
+	const [pending, setPending] = createSignal("")
+	const [message, setMessage] = createSignal("")
+	const [prompt, setPrompt] = createSignal("")
+
+	let keys: string[] = []
+	let anchor = 0
+	let goalColumn = 0
+	let goalPos = -1
+	let lastFind: [string, string] | undefined
+	let lastChange: { keys: string[]; inserted?: string } | undefined
+	let recording: typeof lastChange
+	let insertStart = ""
+	let isReplaying = false
+	let searchPattern = ""
+	let searchBackward = false
+	let isHighlighting = false
+
+	searchContainer.className = "pce-matches"
+	cursorContainer.className = "pce-vim-cursors"
+	cursorContainer.append(cursorEl, "")
+	input.style.display = "none"
+
+	const isVisual = () => untrack(mode).startsWith("visual")
+
+	const getPos = () => {
+		if (isVisual()) return untrack(head)
+		const [start, end, dir] = editor.getSelection()
+		return dir == "backward" ? start : end
+	}
+
+	/** Keeps the cursor on the last character of the line outside visual mode. */
+	const clamp = (value: string, pos: number) => {
+		pos = Math.min(pos, value.length)
+		return isVisual()
+			? pos
+			: Math.max(getLineStart(value, pos), Math.min(pos, getLineEnd(value, pos) - 1))
+	}
+
+	const updateVisual = () => {
+		const value = editor.value
+		const pos = untrack(head)
+		let start = Math.min(anchor, pos)
+		let end = Math.min(Math.max(anchor, pos) + 1, value.length)
+		if (untrack(mode) == "visual-line") {
+			start = getLineStart(value, start)
+			end = getLineEnd(value, end - 1)
+		}
+		editor.setSelection(start, end, pos < anchor ? "backward" : "forward")
+	}
+
+	const moveTo = (pos: number) => {
+		pos = clamp(editor.value, pos)
+		if (isVisual()) {
+			setHead(pos)
+			updateVisual()
+		} else editor.setSelection(pos)
+		editor.extensions.cursor?.scrollIntoView()
+	}
+
+	const switchMode = (newMode: VimMode) => {
+		const oldMode = untrack(mode)
+		if (oldMode == "insert" && newMode != "insert") {
+			if (recording && !isReplaying) {
+				recording.inserted = diffText(insertStart, editor.value).insert
+				lastChange = recording
+			}
+			recording = undefined
+		}
+		if (newMode == "insert") insertStart = editor.value
+		keys = []
+		setPending("")
+		setModeSignal(newMode)
+	}
+
+	const setMode = (newMode: VimMode) => {
+		const oldMode = untrack(mode)
+		const pos = getPos()
+		const value = editor.value
+		switchMode(newMode)
+		if (newMode == "normal") {
+			moveTo(oldMode == "insert" && pos > getLineStart(value, pos) ? pos - 1 : pos)
+		} else if (newMode != "insert") {
+			if (!oldMode.startsWith("visual")) setHead((anchor = clamp(value, pos)))
+			updateVisual()
+		}
+	}
+
+	const setRegister = (name: string, text: string, linewise: boolean, isYank: boolean) => {
+		if (name == "_") return
+		let register: VimRegister = { text, linewise }
+		if (/^[A-Z]$/.test(name)) {
+			const old = registers[(name = name.toLowerCase())]
+			if (old) register = { text: old.text + text, linewise: old.linewise || linewise }
+		}
+		registers['"'] = register
+		if (isYank) registers[0] = register
+		if (name != '"') registers[name] = register
+	}
+
+	const indentLines = (indent: boolean, from: number, to: number, count: number) => {
+		const value = editor.value
+		const [lines, start, end] = getLines(value, from, to)
+		const tabSize = editor.props.tabSize || 2
+		const unit = editor.props.insertSpaces == false ? "\t" : " ".repeat(tabSize)
+		const newLines = lines.map(line => {
+			if (indent) return line && unit.repeat(count) + line
+			for (let i = 0; i < count; i++) {
+				line = line.slice(line[0] == "\t" ? 1 : Math.min(line.search(/[^ ]|$/), tabSize))
+			}
+			return line
+		})
+		insertText(editor, newLines.join("\n"), start, end)
+		moveTo(firstNonBlank(editor.value, start))
+	}
+
+	/**
+	 * Runs the operator on the range. Linewise ranges are extended to whole lines.
+	 * @param count How many times `>` and `<` indent the lines.
+	 */
+	const operate = (
+		op: string,
+		from: number,
+		to: number,
+		linewise: boolean,
+		register: string,
+		count = 1,
+	) => {
+		const value = editor.value
+		const pos = getPos()
+		if (linewise || op == ">" || op == "<") {
+			from = getLineStart(value, from)
+			to = getLineEnd(value, to)
+			linewise = true
+		}
+		if (op == ">" || op == "<") return indentLines(op == ">", from, to, count)
+
+		const text = value.slice(from, to)
+		setRegister(register, linewise ? text + "\n" : text, linewise, op == "y")
+
+		if (op == "y") moveTo(linewise && getLineStart(value, pos) == from ? pos : from)
+		else if (op == "c") {
+			insertText(editor, linewise ? value.slice(from, firstNonBlank(value, from)) : "", from, to)
+			setMode("insert")
+		} else if (linewise) {
+			// Removes the line break after the lines, or before them on the last line
+			if (to < value.length) to++
+			else if (from) from--
+			insertText(editor, "", from, to)
+			const newValue = editor.value
+			moveTo(firstNonBlank(newValue, getLineStart(newValue, Math.min(from, newValue.length))))
+		} else {
+			insertText(editor, "", from, to)
+			moveTo(from)
+		}
+	}
+
+	/** Runs the operator on the line with the position and the lines below it. */
+	const operateLines = (op: string, pos: number, count: number, register: string) => {
+		const value = editor.value
+		const start = getOffsetLine(value, pos, count - 1)
+		operate(op, pos, start < 0 ? value.length : start, true, register)
+	}
+
+	const paste = (register: string, count: number, before: boolean) => {
+		const stored = registers[register]
+		if (!stored) return
+		const value = editor.value
+		const pos = getPos()
+		const text = stored.text.repeat(count)
+		if (stored.linewise) {
+			const at = before ? getLineStart(value, pos) : getLineEnd(value, pos)
+			insertText(editor, before ? text : "\n" + text.slice(0, -1), at, at)
+			moveTo(firstNonBlank(editor.value, before ? at : at + 1))
+		} else {
+			const at = before || pos == getLineEnd(value, pos) ? pos : pos + 1
+			insertText(editor, text, at, at)
+			moveTo(at + text.length - 1)
+		}
+	}
+
+	const joinLines = (pos: number, count: number) => {
+		const value = editor.value
+		const changes: EditorChange[] = []
+		let lineEnd = getLineEnd(value, pos)
+		let offset = 0
+		let cursor = pos
+		for (let i = 0; i < Math.max(count - 1, 1) && lineEnd < value.length; i++) {
+			const next = firstNonBlank(value, lineEnd + 1)
+			const end = getLineEnd(value, next)
+			const insert =
+				next == end || value[next] == ")" || /\s/.test(value[lineEnd - 1] || " ") ? "" : " "
+			changes.push({ from: lineEnd, to: next, insert })
+			cursor = lineEnd + offset
+			offset += insert.length - next + lineEnd
+			lineEnd = end
+		}
+		if (!changes[0]) return
+		editor.dispatch(changes)
+		moveTo(cursor)
+	}
+
+	const runMotion = (
+		motion: Motion,
+		char: string | undefined,
+		pos: number,
+		count: number,
+		hasCount: boolean,
+		isOperator: boolean,
+	) => {
+		const value = editor.value
+		const isVertical = motion == motions.j || motion == motions.k
+		// The goal column is kept until the cursor is moved by something else
+		if (isVertical && pos != goalPos) goalColumn = pos - getLineStart(value, pos)
+		const result = motion(value, pos, count, { editor, isOperator, hasCount, goalColumn }, char)
+		if (result && !isOperator) {
+			goalPos = isVertical || motion == motions.$ ? clamp(value, result[0]) : -1
+			if (motion == motions.$) goalColumn = Infinity
+		}
+		return result
+	}
+
+	/**
+	 * Parses the motion at the index.
+	 * @returns The motion and the character after it, 0 if more keys are needed or
+	 * undefined if the keys aren't a motion.
+	 */
+	const parseMotion = (keys: string[], i: number): [Motion, string?] | 0 | undefined => {
+		const key = namedKeys[keys[i]] || keys[i]
+		const next = keys[i + 1]
+		if (motions[key]) return [motions[key]]
+		if (key == "g") return next == null ? 0 : next == "g" ? [toLine(false)] : undefined
+		if (charMotions[key]) {
+			if (next == null) return 0
+			if (next.length == 1) return [charMotions[(lastFind = [key, next])[0]], next]
+		}
+		if (lastFind && (key == ";" || key == ",")) {
+			let [findKey, char] = lastFind
+			if (key == ",")
+				findKey = findKey == findKey.toLowerCase() ? findKey.toUpperCase() : findKey.toLowerCase()
+			return [charMotions[findKey], char]
+		}
+	}
+
+	const highlight = () => {
+		const error = searchAPI.search(searchPattern, true, false, true)
+		isHighlighting = !error
+		if (error) setMessage(error)
+	}
+
+	const findNext = (backward: boolean, count: number) => {
+		if (!searchPattern) return
+		if (!isHighlighting) highlight()
+		const matches = searchAPI.matches
+		const l = matches.length
+		if (!l) {
+			if (isHighlighting) setMessage("Pattern not found: " + searchPattern)
+			return
+		}
+		let pos = getPos()
+		for (let i = 0; i < count; i++) {
+			let index = backward ? l - 1 : 0
+			if (backward) while (index >= 0 && matches[index][0] >= pos) index--
+			else while (index < l && matches[index][0] <= pos) index++
+			pos = matches[(index + l) % l][0]
+		}
+		moveTo(pos)
+	}
+
+	const openPrompt = (backward: boolean) => {
+		searchBackward = backward
+		setPrompt(backward ? "?" : "/")
+		input.value = ""
+		input.focus()
+	}
+
+	const closePrompt = () => {
+		setPrompt("")
+		textarea.focus()
+	}
+
+	const repeat = (count: number) => {
+		const change = lastChange
+		if (!change || isReplaying) return
+		isReplaying = true
+		for (let i = 0; i < count; i++) {
+			runKeys(change.keys)
+			if (untrack(mode) == "insert") {
+				if (change.inserted) insertText(editor, change.inserted)
+				setMode("normal")
+			}
+		}
+		isReplaying = false
+	}
+
+	/**
+	 * Runs the keys in normal or visual mode.
+	 * @returns False if more keys are needed.
+	 */
+	const runKeys = (keys: string[]): boolean => {
+		let i = 0
+		let register = '"'
+		if (keys[0] == '"') {
+			if (keys.length < 2) return false
+			register = keys[1]
+			i = 2
+		}
+		let [count, index] = parseCount(keys, i)
+		const key = keys[(i = index)]
+		if (key == null) return false
+
+		const value = editor.value
+		const pos = getPos()
+		const hasCount = !!count
+		const visual = isVisual()
+		const lineStart = getLineStart(value, pos)
+		const lineEnd = getLineEnd(value, pos)
+		const isChange =
+			!visual &&
+			(changes.includes(key) || key == "Delete" || (operators.includes(key) && key != "y"))
+		count ||= 1
+
+		if (visual) {
+			const from = Math.min(anchor, pos)
+			const to = Math.min(Math.max(anchor, pos) + 1, value.length)
+			const linewise = untrack(mode) == "visual-line"
+			const op = visualOperators[key] || key
+
+			if (operators.includes(op)) {
+				switchMode("normal")
+				operate(op, from, to, linewise || "XDCYS".includes(key), register, count)
+			} else if (key == "o") {
+				setHead(anchor)
+				anchor = pos
+				updateVisual()
+			} else if (key == "v" || key == "V") {
+				const newMode = key == "v" ? "visual" : "visual-line"
+				setMode(untrack(mode) == newMode ? "normal" : newMode)
+			} else if (key == "Escape") setMode("normal")
+			else if (key == "p" || key == "P") {
+				const stored = registers[register]
+				if (stored) {
+					switchMode("normal")
+					insertText(
+						editor,
+						stored.text,
+						linewise ? getLineStart(value, from) : from,
+						linewise ? getLineEnd(value, to - 1) : to,
+					)
+					moveTo(from)
+				}
+			} else if (key == "J") {
+				switchMode("normal")
+				joinLines(from, getLines(value, from, to)[0].length)
+			} else if ("~uU".includes(key) || key == "r") {
+				if (key == "r" && keys[i + 1] == null) return false
+				const start = linewise ? getLineStart(value, from) : from
+				const end = linewise ? getLineEnd(value, to - 1) : to
+				const text = value.slice(start, end)
+				const char = keys[i + 1]
+				switchMode("normal")
+				if (key != "r" || char.length == 1) {
+					insertText(
+						editor,
+						key == "~"
+							? swapCase(text)
+							: key == "u"
+							? text.toLowerCase()
+							: key == "U"
+							? text.toUpperCase()
+							: text.replace(/[^\n]/g, char),
+						start,
+						end,
+					)
+				}
+				moveTo(start)
+			} else {
+				const motion = parseMotion(keys, i)
+				if (motion === 0) return false
+				if (motion) {
+					const result = runMotion(motion[0], motion[1], pos, count, hasCount, false)
+					if (result) moveTo(result[0])
+				}
+			}
+			return true
+		}
+
+		if (operators.includes(key)) {
+			const [count2, next] = parseCount(keys, i + 1)
+			const total = count * (count2 || 1)
+			const nextKey = keys[next]
+			if (nextKey == null) return false
+			if (nextKey == key) operateLines(key, pos, total, register)
+			else {
+				const motion = parseMotion(keys, next)
+				if (motion === 0) return false
+				if (!motion) return true
+				let [fn, char] = motion
+				let start = pos
+				// cw changes to the end of the word like ce, but includes the word at the cursor
+				if (key == "c" && (fn == motions.w || fn == motions.W) && /\S/.test(value[pos] || "")) {
+					fn = fn == motions.w ? motions.e : motions.E
+					start--
+				}
+				const result = runMotion(fn, char, start, total, hasCount || !!count2, true)
+				if (!result) return true
+				const [newPos, type] = result
+				operate(
+					key,
+					Math.min(pos, newPos),
+					Math.max(pos, newPos) + +(type == 1),
+					type == 2,
+					register,
+				)
+			}
+		} else {
+			const motion = parseMotion(keys, i)
+			if (motion === 0) return false
+			if (motion) {
+				const result = runMotion(motion[0], motion[1], pos, count, hasCount, false)
+				if (result) moveTo(result[0])
+				return true
+			}
+			const next = keys[i + 1]
+			if (key == "r" && next == null) return false
+			if (key == "x" || key == "Delete") {
+				if (pos < lineEnd) operate("d", pos, Math.min(pos + count, lineEnd), false, register)
+			} else if (key == "X") {
+				if (pos > lineStart) operate("d", Math.max(lineStart, pos - count), pos, false, register)
+			} else if (key == "D" || key == "C") {
+				const end = runMotion(motions.$, undefined, pos, count, hasCount, true)![0]
+				operate(key == "D" ? "d" : "c", pos, end, false, register)
+			} else if (key == "s") operate("c", pos, Math.min(pos + count, lineEnd), false, register)
+			else if (key == "S" || key == "Y") operateLines(key == "S" ? "c" : "y", pos, count, register)
+			else if (key == "p" || key == "P") paste(register, count, key == "P")
+			else if (key == "J") joinLines(pos, count)
+			else if (key == "r") {
+				if (next.length == 1 && pos + count <= lineEnd) {
+					insertText(editor, next.repeat(count), pos, pos + count, pos + count - 1)
+				}
+			} else if (key == "~") {
+				const end = Math.min(pos + count, lineEnd)
+				insertText(editor, swapCase(value.slice(pos, end)), pos, end)
+				moveTo(end)
+			} else if (key == "i") setMode("insert")
+			else if (key == "a" || key == "A") {
+				editor.setSelection(key == "A" ? lineEnd : Math.min(pos + 1, lineEnd))
+				setMode("insert")
+			} else if (key == "I") {
+				editor.setSelection(firstNonBlank(value, lineStart))
+				setMode("insert")
+			} else if (key == "o" || key == "O") {
+				const indent = value.slice(lineStart, firstNonBlank(value, lineStart))
+				if (key == "o") insertText(editor, "\n" + indent, lineEnd, lineEnd)
+				else insertText(editor, indent + "\n", lineStart, lineStart, lineStart + indent.length)
+				setMode("insert")
+			} else if (key == "u" || key == "Ctrl-r") {
+				for (let j = 0; j < count; j++) editor.commands.run(key == "u" ? "undo" : "redo")
+				moveTo(editor.getSelection()[0])
+			} else if (key == "v" || key == "V") setMode(key == "v" ? "visual" : "visual-line")
+			else if (key == ".") repeat(count)
+			else if (key == "/" || key == "?") openPrompt(key == "?")
+			else if (key == "n" || key == "N") findNext(searchBackward != (key == "N"), count)
+			else if (key == "Escape") {
+				searchAPI.stopSearch()
+				isHighlighting = false
+			}
+		}
+
+		if (isChange && !isReplaying) {
+			const change = { keys: keys.slice() }
+			if (untrack(mode) == "insert") recording = change
+			else lastChange = change
+		}
+		return true
+	}
+
+	const getKey = (e: KeyboardEvent) => {
+		const key = e.key
+		if (e.altKey || e.metaKey) return
+		if (e.ctrlKey) return key == "r" ? "Ctrl-r" : undefined
+		if (key.length == 1 || namedKeys[key] || key == "Delete" || key == "Escape") return key
+	}
+
+	editor.keymap.add([
+		{
+			// Handles every key outside insert mode before the other bindings
+			key: "Any",
+			precedence: "highest",
+			run(e) {
+				if (untrack(mode) == "insert" || e.isComposing) return false
+				const key = getKey(e)
+				if (!key) return e.key == "Tab"
+				if (key == "Escape" && untrack(mode) == "normal" && !keys[0] && !isHighlighting) {
+					return false
+				}
+
+				setMessage("")
+				keys.push(key)
+				if (runKeys(keys) || key == "Escape") keys = []
+				setPending(keys.join(""))
+				return true
+			},
+		},
+		{
+			key: "Escape",
+			precedence: "low",
+			run: () => untrack(mode) == "insert" && (setMode("normal"), true),
+		},
+		{
+			key: "Enter",
+			scope: "vim",
+			run() {
+				searchPattern = input.value || searchPattern
+				closePrompt()
+				isHighlighting = false
+				findNext(searchBackward, 1)
+				return true
+			},
+		},
+		{
+			key: "Escape",
+			scope: "vim",
+			run() {
+				closePrompt()
+				return true
+			},
+		},
+	])
+
+	input.onkeydown = e => editor.keymap.handle(e, "vim")
+	input.onblur = () => setPrompt("")
+
+	createEffect(
+		on(
+			editor.tokens,
+			() => {
+				if (isHighlighting) highlight()
+			},
+			{ defer: true },
+		),
+	)
+
+	createEffect(() => {
+		const current = mode()
+		const code = editor.tokens() && editor.value
+		const [start, end, dir] = editor.selection()
+		const pos = current.startsWith("visual") ? head() : dir == "backward" ? start : end
+		const char = code[pos] == "\n" ? "" : code[pos] || ""
+
+		textarea.classList.toggle("pce-vim-block", current != "insert")
+		cursorContainer.style.display = current == "insert" ? "none" : ""
+		;(cursorNodes[0] as Text).data = code.slice(0, pos)
+		;(cursorEl.firstChild as Text).data = char || " "
+		;(cursorNodes[2] as Text).data = code.slice(pos + char.length)
+	})
+
+	createEffect(() => {
+		const promptChar = prompt()
+		const label = promptChar || message() || modeLabels[mode()] || ""
+		const keysText = pending()
+
+		barContainer.style.display = label || keysText ? "flex" : "none"
+		input.style.display = promptChar ? "" : "none"
+		modeEl.textContent = label
+		keysEl.textContent = keysText
+	})
+
+	editor.extensions.vim = {
+		mode,
+		setMode,
+		registers,
+	}
+
+	onCleanup(() => {
+		textarea.classList.remove("pce-vim-block")
+		delete editor.extensions.vim
+	})
+
+	return [searchContainer, cursorContainer, barContainer]
+}
+
+export { vim }
@@ -0,0 +1,200 @@
+import { PrismEditor } from "../../types"
+import { getLineEnd, getLineStart } from "../../utils/local"
+
+/**
+ * Result of a motion. Contains the new position followed by how an operator treats the
+ * range: `0` excludes the new position, `1` includes it and `2` makes it linewise.
+ */
+export type MotionResult = [pos: number, type: 0 | 1 | 2]
+
+/** State shared between the motions. */
+export type MotionContext = {
+	editor: PrismEditor
+	/** Whether the motion is used by an operator. */
+	isOperator: boolean
+	/** Whether a count was typed before the motion. */
+	hasCount: boolean
+	/** Column the cursor tries to stay in when moving vertically. */
+	goalColumn: number
+}
+
+export type Motion = (
+	value: string,
+	pos: number,
+	count: number,
+	context: MotionContext,
+	char?: string,
+) => MotionResult | undefined
+
+const wordRegex = /[_\p{N}\p{L}]/u
+
+/** Returns 0 for whitespace, 1 for word characters and 2 for punctuation. */
+const charClass = (char: string | undefined, bigWord?: boolean) =>
+	!char || /\s/.test(char) ? 0 : bigWord || wordRegex.test(char) ? 1 : 2
+
+const firstNonBlank = (value: string, lineStart: number) => {
+	let pos = lineStart
+	while (/[ \t]/.test(value[pos] || "")) pos++
+	return pos
+}
+
+/** Gets the start of the line that's `offset` lines away from the position's line. */
+const getOffsetLine = (value: string, pos: number, offset: number) => {
+	let start = getLineStart(value, pos)
+	for (; offset > 0; offset--) {
+		const end = getLineEnd(value, start)
+		if (end == value.length) return -1
+		start = end + 1
+	}
+	for (; offset < 0; offset++) {
+		if (!start) return -1
+		start = getLineStart(value, start - 1)
+	}
+	return start
+}
+
+/** Gets the start of the line with the line number. Numbers out of bounds are clamped. */
+const getLinePosition = (value: string, line: number) => {
+	let start = 0
+	for (let pos: number; --line > 0 && (pos = value.indexOf("\n", start) + 1); start = pos);
+	return start
+}
+
+const vertical =
+	(down: boolean): Motion =>
+	(value, pos, count, context) => {
+		const start = getOffsetLine(value, pos, down ? count : -count)
+		if (start < 0) return
+		const end = getLineEnd(value, start)
+		return [Math.min(start + context.goalColumn, Math.max(start, end - +!context.isOperator)), 2]
+	}
+
+const toLine =
+	(last: boolean): Motion =>
+	(value, _pos, count, { hasCount }) => {
+		const start = getLinePosition(value, hasCount ? count : last ? Infinity : 1)
+		return [firstNonBlank(value, start), 2]
+	}
+
+const wordForward =
+	(bigWord: boolean): Motion =>
+	(value, pos, count, { isOperator }) => {
+		const start = pos
+		for (let i = 0; i < count && pos < value.length; i++) {
+			const type = charClass(value[pos], bigWord)
+			if (type) while (pos < value.length && charClass(value[pos], bigWord) == type) pos++
+			while (pos < value.length && !charClass(value[pos])) {
+				// Empty lines count as words
+				if (value[pos] == "\n" && value[pos + 1] == "\n" && pos >= start) {
+					pos++
+					break
+				}
+				pos++
+			}
+		}
+		if (isOperator) {
+			// The operated text stops at the end of the line of the last word
+			const lineEnd = value.indexOf("\n", start)
+			if (lineEnd > start && lineEnd < pos) pos = lineEnd
+		}
+		return [pos, 0]
+	}
+
+const wordEnd =
+	(bigWord: boolean): Motion =>
+	(value, pos, count) => {
+		for (let i = 0; i < count && pos < value.length - 1; i++) {
+			pos++
+			while (pos < value.length - 1 && !charClass(value[pos])) pos++
+			const type = charClass(value[pos], bigWord)
+			while (pos < value.length - 1 && charClass(value[pos + 1], bigWord) == type) pos++
+		}
+		return [pos, 1]
+	}
+
+const wordBackward =
+	(bigWord: boolean): Motion =>
+	(value, pos, count) => {
+		for (let i = 0; i < count && pos > 0; i++) {
+			pos--
+			while (pos > 0 && !charClass(value[pos]) && !(value[pos] == "\n" && value[pos - 1] == "\n"))
+				pos--
+			const type = charClass(value[pos], bigWord)
+			while (type && pos > 0 && charClass(value[pos - 1], bigWord) == type) pos--
+		}
+		return [pos, 0]
+	}
+
+/** Finds the character on the current line. */
+const findChar =
+	(backward: boolean, till: boolean): Motion =>
+	(value, pos, count, _context, char) => {
+		if (!char) return
+		const lineStart = getLineStart(value, pos)
+		const lineEnd = getLineEnd(value, pos)
+		let next = pos
+		for (let i = 0; i < count; i++) {
+			next = backward
+				? next
+					? value.lastIndexOf(char, next - 1)
+					: -1
+				: value.indexOf(char, next + 1)
+			if (next < lineStart || next >= lineEnd) return
+		}
+		if (till) next += backward ? 1 : -1
+		return [next, backward ? 0 : 1]
+	}
+
+/** Jumps to the bracket matching the first bracket at or after the cursor on the line. */
+const matchBracket: Motion = (value, pos, _count, { editor }) => {
+	const matcher = editor.extensions.matchBrackets
+	if (!matcher) return
+	const { brackets, pairs } = matcher
+	const lineEnd = getLineEnd(value, pos)
+	for (let i = 0; i < brackets.length; i++) {
+		const bracket = brackets[i]
+		if (bracket[5] > pos && bracket[1] < lineEnd && pairs[i] != null) {
+			return [brackets[pairs[i]!][1], 1]
+		}
+	}
+}
+
+/** Motions that don't need a character after them. */
+const motions: Record<string, Motion> = {
+	h: (value, pos, count) => [Math.max(getLineStart(value, pos), pos - count), 0],
+	l: (value, pos, count) => [Math.min(getLineEnd(value, pos), pos + count), 0],
+	j: vertical(true),
+	k: vertical(false),
+	"+": (value, pos, count) => {
+		const start = getOffsetLine(value, pos, count)
+		if (start + 1) return [firstNonBlank(value, start), 2]
+	},
+	"-": (value, pos, count) => {
+		const start = getOffsetLine(value, pos, -count)
+		if (start + 1) return [firstNonBlank(value, start), 2]
+	},
+	0: (value, pos) => [getLineStart(value, pos), 0],
+	"^": (value, pos) => [firstNonBlank(value, getLineStart(value, pos)), 0],
+	$: (value, pos, count) => {
+		const start = getOffsetLine(value, pos, count - 1)
+		if (start + 1) return [getLineEnd(value, start), 0]
+	},
+	w: wordForward(false),
+	W: wordForward(true),
+	e: wordEnd(false),
+	E: wordEnd(true),
+	b: wordBackward(false),
+	B: wordBackward(true),
+	G: toLine(true),
+	"%": matchBracket,
+}
+
+/** Motions that need a character after them. */
+const charMotions: Record<string, Motion> = {
+	f: findChar(false, false),
+	t: findChar(false, true),
+	F: findChar(true, false),
+	T: findChar(true, true),
+}
+
+export { motions, charMotions, toLine, firstNonBlank, getLinePosition, getOffsetLine }
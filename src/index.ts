@@ -1,2 +1,3 @@
 export * from "./types"
-export { isChrome, isMac, isWebKit, languageMap, numLines, Editor } from "./core"
+export { isChrome, isMac, isWebKit, languageMap, numLines, normalizeKeys, Editor } from "./core"
+export { createDocument } from "./document"
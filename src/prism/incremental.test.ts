@@ -0,0 +1,128 @@
+import { describe, expect, test } from "vitest"
+import { languages, tokenizeText } from "."
+import { diffText, patchTokens, tokenizeIncremental, tokensEqual } from "./incremental"
+import examples from "../testsite/examples"
+import "./languages/css"
+import "./languages/javascript"
+import "./languages/jsx"
+import "./languages/markdown"
+import "./languages/markup"
+import "./languages/php"
+import "./languages/python"
+import "./languages/rust"
+import "./languages/sql"
+import "./languages/tsx"
+import "./languages/typescript"
+import "./languages/yaml"
+
+/** Pieces of text likely to change how the code around them is tokenized. */
+const pieces = [
+	"\n",
+	"\n\n",
+	'"',
+	"'",
+	"`",
+	"/*",
+	"*/",
+	"//",
+	"#",
+	"<",
+	">",
+	"</",
+	"<!--",
+	"-->",
+	"${",
+	"{",
+	"}",
+	"(",
+	")",
+	"[",
+	"]",
+	"\\",
+	"=",
+	";",
+	":",
+	"*",
+	"-",
+	"|",
+	"x",
+	" ",
+	"a b",
+]
+
+/** Simple seeded random number generator, so failures can be reproduced. */
+const random = (seed: number) => (max: number) => {
+	seed = (seed * 1103515245 + 12345) & 0x7fffffff
+	return seed % max
+}
+
+const languageNames = [
+	"css",
+	"javascript",
+	"jsx",
+	"markdown",
+	"markup",
+	"php",
+	"python",
+	"rust",
+	"sql",
+	"tsx",
+	"typescript",
+	"yaml",
+] as const
+
+describe("tokenizeIncremental", () => {
+	test.each(languageNames)("matches a full tokenization after random edits in %s", name => {
+		const grammar = languages[name]
+		const rand = random(name.length)
+		// Repeating the example so the changed regions are small compared to the text
+		let text = (examples[name] + "\n").repeat(4)
+		let tokens = tokenizeText(text, grammar)
+
+		for (let i = 0; i < 300; i++) {
+			const from = rand(text.length + 1)
+			const to = Math.min(text.length, from + (rand(3) ? 0 : rand(20)))
+			let insert = ""
+			for (let n = rand(3); n >= 0; n--) insert += pieces[rand(pieces.length)]
+
+			const newText = text.slice(0, from) + insert + text.slice(to)
+			const expected = tokenizeText(newText, grammar)
+
+			tokens = tokenizeIncremental(text, tokens, newText, grammar)
+			expect(
+				tokensEqual(tokens, expected),
+				`edit ${i}: ${JSON.stringify({ from, to, insert })}`,
+			).toBe(true)
+			text = newText
+		}
+	})
+
+	test("returns the old tokens if the text is unchanged", () => {
+		const grammar = languages.javascript
+		const tokens = tokenizeText(examples.javascript, grammar)
+		expect(tokenizeIncremental(examples.javascript, tokens, examples.javascript, grammar)).toBe(
+			tokens,
+		)
+	})
+})
+
+describe("patchTokens", () => {
+	test("keeps the tokens outside the change", () => {
+		const oldText = "let a = 'b'\nlet c = 1"
+		const newText = "let a = 'bd'\nlet c = 1"
+		const oldTokens = tokenizeText(oldText, languages.javascript)
+		const tokens = patchTokens(oldText, oldTokens, newText)
+
+		expect(tokens[0]).toBe(oldTokens[0])
+		expect(tokens[tokens.length - 1]).toBe(oldTokens[oldTokens.length - 1])
+		expect(tokens.reduce((length, token) => length + token.length, 0)).toBe(newText.length)
+	})
+})
+
+describe("diffText", () => {
+	test("finds the smallest change", () => {
+		expect(diffText("abcdef", "abXYef")).toEqual({ from: 2, to: 4, insert: "XY" })
+		expect(diffText("aaa", "aaaa")).toEqual({ from: 3, to: 3, insert: "a" })
+		expect(diffText("abc", "")).toEqual({ from: 0, to: 3, insert: "" })
+	})
+})
@@ -0,0 +1,473 @@
+import {
+	Grammar,
+	GrammarToken,
+	Token,
+	TokenStream,
+	languages,
+	rest,
+	tokenize,
+	tokenizeText,
+} from "."
+import type { EditorChange } from "../types"
+
+/**
+ * Tokenizes the new text by reusing the tokens from the previous text. Only the region
+ * around the changed part of the text is tokenized again.
+ *
+ * The region starts at the start of a line that's outside any top-level token, and it
+ * includes some unchanged lines before the change as context. Before tokenizing, the
+ * patterns that can match across lines are searched in the text before the change. If they
+ * find a different match in the new text, the region starts before it. While tokenizing,
+ * greedy patterns search the entire text, and the region is extended if a match continues
+ * after it.
+ *
+ * The region is only used if the tokens for its context are identical to the previous
+ * tokens, and if the tokens at its end match the previous tokens after the change.
+ * Otherwise, the region is extended in both directions. If it covers most of the text, the
+ * entire text is tokenized instead.
+ *
+ * Grammars with a custom tokenizer can depend on the entire text, so they're always
+ * tokenized in full.
+ * @param oldText The text that was tokenized previously.
+ * @param oldTokens The tokens for the previous text.
+ * @param newText The text that should be tokenized.
+ * @param grammar The grammar used to tokenize both texts.
+ * @returns The tokens for the new text.
+ */
+const tokenizeIncremental = (
+	oldText: string,
+	oldTokens: TokenStream,
+	newText: string,
+	grammar: Grammar,
+): TokenStream => {
+	const oldLength = oldText.length
+	const offset = newText.length - oldLength
+	const tokenCount = oldTokens.length
+	const starts = [0]
+
+	if (grammar[tokenize] || tokenCount < 3) return tokenizeText(newText, grammar)
+	if (oldText == newText) return oldTokens
+
+	const { from: changeStart, to: changeEnd } = diffText(oldText, newText)
+
+	/** Finds the index of the top-level token containing the position. */
+	const indexAt = (pos: number) => {
+		let low = 0
+		let high = tokenCount - 1
+		while (low < high) {
+			const mid = (low + high + 1) >> 1
+			if (starts[mid] > pos) high = mid - 1
+			else low = mid
+		}
+		return low
+	}
+
+	for (let i = 0; i < tokenCount; i++) starts[i + 1] = starts[i] + oldTokens[i].length
+
+	// A token ending at the change can be extended by it, so it's not part of the context
+	let index = indexAt(Math.max(changeStart - 1, 0))
+	let contextEnd = lineStart(oldText, changeStart)
+	const region: [start: number, end: number, reach: number] = [0, 0, 0]
+	const [searchGrammar, find, searches] = searchFullText(grammar, newText, region)
+	const order = Object.keys(searchGrammar)
+	let maxStart = contextEnd
+	let nearby = contextEnd
+
+	if (typeof oldTokens[index] != "string") contextEnd = Math.min(contextEnd, starts[index])
+	for (let i = 0; i < 50 && nearby; i++) nearby = lineStart(oldText, nearby - 1)
+
+	// Patterns that can match or look across lines can find different matches before the
+	// change, so the region can't start after the first different match. Only greedy
+	// patterns are searched from the start of the text since they're used for tokens
+	// spanning many lines, such as comments and strings. The others are searched in the 50
+	// lines before the change
+	for (const [pattern, lookbehind, name, greedy] of searches) {
+		/** Finds the next match that doesn't start in a token from an earlier pattern. */
+		const next = (isNew: boolean, pos: number) => {
+			for (
+				let match: RegExpExecArray | null, matchStart: number, i: number;
+				;
+				pos = starts[i + 1]
+			) {
+				if (isNew) match = find(pattern, pos)
+				else {
+					pattern.lastIndex = pos
+					match = pattern.exec(oldText)
+				}
+				if (!match) return null
+
+				matchStart = match.index + (lookbehind && match[1] ? match[1].length : 0)
+				const token = oldTokens[(i = indexAt(matchStart))]
+				if (
+					matchStart >= contextEnd ||
+					typeof token == "string" ||
+					order.indexOf(token.type) >= order.indexOf(name)
+				) {
+					return match
+				}
+			}
+		}
+
+		let pos = greedy ? 0 : nearby
+
+		while (true) {
+			const match = next(true, pos)
+			const oldMatch = next(false, pos)
+
+			const matchStart = match ? match.index : newText.length
+			const first = Math.min(matchStart, oldMatch ? oldMatch.index : oldLength)
+			if (first >= contextEnd) break
+			if (!match || !oldMatch || matchStart != oldMatch.index || match[0] != oldMatch[0]) {
+				maxStart = Math.min(maxStart, lineStart(oldText, first))
+				break
+			}
+			pos = Math.max(matchStart + match[0].length, matchStart + 1)
+		}
+	}
+
+	for (let lines = 2; ; lines *= 2) {
+		let start = contextEnd
+		let endIndex = tokenCount
+		let oldEnd = oldLength
+		// Greedy tokens found previously that ended after the region must be included
+		let to = Math.max(changeEnd, region[2] - offset)
+
+		for (let i = 0; i < lines && start; i++) start = lineStart(oldText, start - 1)
+		start = Math.min(start, maxStart)
+		// Moving the start out of tokens spanning multiple lines
+		while (typeof oldTokens[(index = indexAt(start))] != "string" && starts[index] < start) {
+			start = lineStart(oldText, starts[index])
+		}
+		for (let i = 0; i < lines && to < oldLength; i++) to = lineEnd(oldText, to) + 1
+		while (endIndex > index && oldEnd - oldTokens[endIndex - 1].length >= to) {
+			oldEnd -= oldTokens[--endIndex].length
+		}
+
+		// Tokenizing everything is faster than tokenizing most of the text multiple times
+		if (2 * (oldEnd - start) > oldLength) return tokenizeText(newText, grammar)
+
+		region[0] = start
+		region[1] = oldEnd + offset
+
+		const newTokens = tokenizeText(newText.slice(start, oldEnd + offset), searchGrammar)
+		if (region[2] > region[1]) continue
+
+		const context = contextEnd - start
+		const newContext = sliceTokens(newTokens, 0, context)
+		const oldContext = sliceTokens(oldTokens, start, context, starts)
+
+		if (
+			(!start || (!!newContext && !!oldContext && tokensEqual(newContext, oldContext))) &&
+			(endIndex == tokenCount ||
+				isSynced(
+					newTokens,
+					oldTokens,
+					endIndex,
+					oldEnd,
+					Math.max(changeEnd, lineStart(oldText, to - 1)),
+				))
+		) {
+			// The start of a string cut at the start of the region is added back
+			if (start > starts[index]) {
+				const head = (oldTokens[index] as string).slice(0, start - starts[index])
+				if (typeof newTokens[0] == "string") newTokens[0] = head + newTokens[0]
+				else newTokens.unshift(head)
+			}
+			return join(oldTokens, index, newTokens, endIndex)
+		}
+	}
+}
+
+const globalPatterns = new WeakMap<RegExp, RegExp>()
+
+/**
+ * Patterns whose source has none of these can't match a line feed. Other patterns might
+ * not be able to either, but that only makes searching slower.
+ */
+const lineFeedPattern = /\\[snDWxuc0pPk]|\\[bt]-|\[\^|\n/
+
+/**
+ * Copies the grammar, but its patterns take the text outside the tokenized region into
+ * account. Greedy patterns search the entire text, and patterns matching the last string in
+ * the region are also searched with the text after the region. Matches that end after the
+ * region aren't added, but the furthest position they reach is stored in `region[2]`, so
+ * the region can be extended.
+ *
+ * Also returns a function searching the entire text with a global pattern, which caches
+ * its last result, and the global versions of the patterns that might match a line feed
+ * along with their token names and whether they're greedy.
+ */
+const searchFullText = (
+	grammar: Grammar,
+	text: string,
+	region: [number, number, number],
+): [
+	Grammar,
+	(pattern: RegExp, from: number) => RegExpExecArray | null,
+	[pattern: RegExp, lookbehind: boolean | undefined, name: string, greedy: boolean | undefined][],
+] => {
+	const copy: Grammar = {}
+	const searches: [RegExp, boolean | undefined, string, boolean | undefined][] = []
+	const cache = new Map<RegExp, [from: number, match: RegExpExecArray | null]>()
+	let restGrammar: Grammar | string | null | undefined
+
+	/** Finds the first match starting at or after `from` in the entire text. */
+	const find = (pattern: RegExp, from: number) => {
+		let cached = cache.get(pattern)
+		// The previous result is still the first match if it doesn't start before `from`
+		if (!cached || cached[0] > from || (cached[1] ? cached[1].index < from : false)) {
+			pattern.lastIndex = from
+			cache.set(pattern, (cached = [from, pattern.exec(text)]))
+		}
+		return cached[1]
+	}
+
+	// Prism adds the rest grammar the same way before tokenizing
+	while ((restGrammar = grammar[rest])) {
+		delete grammar[rest]
+		Object.assign(grammar, typeof restGrammar == "string" ? languages[restGrammar] : restGrammar)
+	}
+
+	for (const name in grammar) {
+		const patterns = grammar[name]
+		copy[name] =
+			patterns &&
+			(Array.isArray(patterns) ? patterns : [patterns]).map(patternObj => {
+				const { lookbehind, greedy } = patternObj as GrammarToken
+				const pattern = (patternObj as GrammarToken).pattern || patternObj
+				const isGreedy = greedy && pattern.global
+				const search = pattern.global
+					? pattern
+					: globalPatterns.get(pattern) ||
+					  globalPatterns.set(pattern, RegExp(pattern, pattern.flags + "g")).get(pattern)!
+				const wrapper = {
+					global: isGreedy,
+					lastIndex: 0,
+					exec(str: string) {
+						const [start, end] = region
+						const strStart = end - str.length
+						let match: RegExpExecArray | null
+						let matchEnd: number
+
+						if (isGreedy) {
+							// The line feed before the region can be matched by lookbehind
+							match = find(
+								pattern,
+								start + wrapper.lastIndex - (start && !wrapper.lastIndex ? 1 : 0),
+							)
+							if (match && match.index + (lookbehind && match[1] ? match[1].length : 0) < start) {
+								match = find(pattern, start)
+							}
+							if (match && match.index < end) {
+								if ((matchEnd = match.index + match[0].length) <= end) {
+									const result = match.slice() as RegExpExecArray
+									result.index = match.index - start
+									return result
+								}
+								region[2] = Math.max(region[2], matchEnd)
+							}
+							return null
+						}
+
+						pattern.lastIndex = 0
+						match = pattern.exec(str)
+						// The last string in the region continues after it in the full text
+						if (end < text.length && strStart >= start && text.startsWith(str, strStart)) {
+							const result = find(search, strStart)
+							if (
+								result &&
+								result.index < end &&
+								(matchEnd = result.index + result[0].length) > end
+							) {
+								region[2] = Math.max(region[2], matchEnd)
+							} else if (match && strStart + match.index + match[0].length == end) {
+								// The match might depend on the end of the region
+								region[2] = Math.max(region[2], end + 1)
+							}
+						}
+						return match
+					},
+				}
+
+				if (pattern.dotAll || lineFeedPattern.test(pattern.source)) {
+					searches.push([search, lookbehind, name, isGreedy])
+				}
+				return { ...patternObj, pattern: wrapper as any as RegExp }
+			})
+	}
+
+	return [copy, find, searches]
+}
+
+/**
+ * Replaces the old tokens overlapping the changed region with the new text as a plain
+ * string. Useful to display the new text while it's being tokenized asynchronously.
+ * @param oldText The text that was tokenized previously.
+ * @param oldTokens The tokens for the previous text.
+ * @param newText The new text.
+ * @returns The old tokens with the changed region as plain text.
+ */
+const patchTokens = (oldText: string, oldTokens: TokenStream, newText: string): TokenStream => {
+	const oldLength = oldText.length
+	const { from: changeStart, to: changeEnd } = diffText(oldText, newText)
+
+	let startIndex = 0
+	let endIndex = oldTokens.length
+	let start = 0
+	let end = oldLength
+
+	if (oldText == newText) return oldTokens
+	while (startIndex < endIndex && start + oldTokens[startIndex].length <= changeStart) {
+		start += oldTokens[startIndex++].length
+	}
+	while (endIndex > startIndex && end - oldTokens[endIndex - 1].length >= changeEnd) {
+		end -= oldTokens[--endIndex].length
+	}
+
+	return join(
+		oldTokens,
+		startIndex,
+		[newText.slice(start, end + newText.length - oldLength)],
+		endIndex,
+	)
+}
+
+/**
+ * Finds the smallest single change that turns the old text into the new text.
+ * @param oldText The text before the change.
+ * @param newText The text after the change.
+ * @returns The change with positions referring to the old text.
+ */
+const diffText = (oldText: string, newText: string): EditorChange => {
+	const oldLength = oldText.length
+	const from = commonPrefix(oldText, newText)
+	const to = oldLength - commonPrefix(oldText, newText, Math.min(oldLength, newText.length) - from)
+	return { from, to, insert: newText.slice(from, to + newText.length - oldLength) }
+}
+
+/**
+ * Returns the length of the common prefix of the two strings or their common suffix if
+ * `maxSuffix` is specified. The suffix can't be longer than `maxSuffix`.
+ */
+const commonPrefix = (a: string, b: string, maxSuffix?: number) => {
+	const max = maxSuffix ?? Math.min(a.length, b.length)
+	const aEnd = a.length
+	const bEnd = b.length
+	const at = (str: string, end: number, i: number, length: number) =>
+		maxSuffix == null ? str.substr(i, length) : str.substr(end - i - length, length)
+	let i = 0
+
+	// Comparing chunks first since it's much faster than comparing single characters
+	for (let chunk = 512; i + chunk <= max && at(a, aEnd, i, chunk) == at(b, bEnd, i, chunk); ) {
+		i += chunk
+	}
+	while (i < max && at(a, aEnd, i, 1) == at(b, bEnd, i, 1)) i++
+	return i
+}
+
+/**
+ * Checks whether the tokens at the end of the new tokens are identical to the old tokens
+ * starting after `syncStart`. If they are, the tokens after the region are unaffected.
+ */
+const isSynced = (
+	newTokens: TokenStream,
+	oldTokens: TokenStream,
+	endIndex: number,
+	oldEnd: number,
+	syncStart: number,
+) => {
+	let i = newTokens.length
+	let j = endIndex
+
+	while (j && (oldEnd -= oldTokens[j - 1].length) >= syncStart) {
+		if (!i || !tokensEqual([newTokens[--i]], [oldTokens[--j]])) return false
+	}
+
+	return j < endIndex
+}
+
+/**
+ * Returns the top-level tokens covering `length` characters from position `from`. Strings
+ * are cut at the ends, but if a token is cut, `null` is returned instead.
+ */
+const sliceTokens = (tokens: TokenStream, from: number, length: number, starts?: number[]) => {
+	const result: TokenStream = []
+	let i = 0
+	let pos = 0
+
+	if (starts) {
+		// Skipping to the start using binary search
+		for (let high = tokens.length - 1; i < high; ) {
+			const mid = (i + high + 1) >> 1
+			if (starts[mid] > from) high = mid - 1
+			else i = mid
+		}
+		pos = starts[i]
+	}
+	for (let end = from + length; pos < end; pos += tokens[i++].length) {
+		const token = tokens[i]
+		const tokenEnd = pos + token.length
+		if (tokenEnd <= from) continue
+		if (typeof token == "string") {
+			const str = token.slice(Math.max(from - pos, 0), end - pos)
+			// Adjacent strings are merged so they're compared correctly
+			if (typeof result[result.length - 1] == "string") result[result.length - 1] += str
+			else result.push(str)
+		} else if (pos < from || tokenEnd > end) return null
+		else result.push(token)
+	}
+
+	return result
+}
+
+const lineStart = (text: string, pos: number) => (pos > 0 ? text.lastIndexOf("\n", pos - 1) + 1 : 0)
+
+const lineEnd = (text: string, pos: number) =>
+	(pos = text.indexOf("\n", pos)) + 1 ? pos : text.length
+
+/**
+ * Replaces the old tokens between the indexes with the new tokens while merging
+ * adjacent strings.
+ */
+const join = (oldTokens: TokenStream, start: number, newTokens: TokenStream, end: number) => {
+	const middle = newTokens[0] ? newTokens.slice() : []
+
+	if (typeof oldTokens[start - 1] == "string" && typeof middle[0] != "object") {
+		middle[0] = oldTokens[--start] + ((middle[0] as string) || "")
+	}
+
+	let last = middle.length - 1
+	if (typeof oldTokens[end] == "string" && typeof middle[last] != "object") {
+		middle[Math.max(last, 0)] = ((middle[last] as string) || "") + oldTokens[end++]
+	}
+
+	const result = oldTokens.slice(0, start).concat(middle, oldTokens.slice(end))
+	return result[0] ? result : [""]
+}
+
+/**
+ * Checks whether two token streams are identical. The aliases of the tokens are ignored
+ * since some extensions modify them.
+ */
+const tokensEqual = (a: TokenStream, b: TokenStream): boolean => {
+	if (a.length != b.length) return false
+	for (let i = 0; i < a.length; i++) {
+		let token1 = a[i]
+		let token2 = b[i]
+		if (token1 instanceof Token && token2 instanceof Token) {
+			let content1 = token1.content
+			let content2 = token2.content
+			if (
+				token1.type != token2.type ||
+				token1.length != token2.length ||
+				(typeof content1 == "string"
+					? content1 != content2
+					: typeof content2 == "string" || !tokensEqual(content1, content2))
+			)
+				return false
+		} else if (token1 != token2) return false
+	}
+	return true
+}
+
+export { tokenizeIncremental, tokensEqual, patchTokens, diffText }
@@ -0,0 +1,50 @@
+import { Token, TokenStream, languages, tokenizeText } from "."
+
+/** Message sent to the worker. Contains the id of the request, the code and the language. */
+export type TokenizeRequest = [number, string, string]
+
+/** Message sent from the worker. Contains the id of the request and the tokens. */
+export type TokenizeResponse = [number, TokenStream]
+
+/**
+ * Makes the current worker tokenize code for editors with this worker passed to their
+ * `worker` prop. The languages used by the editors must be imported inside the worker
+ * before any code is tokenized.
+ * @example
+ * ```javascript
+ * // tokenizer.js
+ * import "solid-prism-editor/prism/languages/markdown"
+ * import { handleTokenizeRequests } from "solid-prism-editor/prism/worker"
+ *
+ * handleTokenizeRequests()
+ * ```
+ */
+const handleTokenizeRequests = () => {
+	const scope = self as unknown as Worker
+	scope.addEventListener("message", (e: MessageEvent<TokenizeRequest>) => {
+		const [id, code, language] = e.data
+		scope.postMessage([id, tokenizeText(code, languages[language] || {})] as TokenizeResponse)
+	})
+}
+
+/**
+ * The tokens lose their prototype when they're sent between threads. This function
+ * recreates the `Token` instances so they can be highlighted.
+ * @param tokens Tokens received from a worker.
+ */
+const deserializeTokens = (tokens: TokenStream): TokenStream =>
+	tokens.map(token => {
+		if (typeof token == "string") return token
+		const { type, content, alias, length } = token
+		const newToken = new Token(
+			type,
+			typeof content == "string" ? content : deserializeTokens(content),
+			"",
+			alias,
+		)
+
+		newToken.length = length
+		return newToken
+	})
+
+export { handleTokenizeRequests, deserializeTokens }
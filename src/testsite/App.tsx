@@ -13,6 +13,7 @@ import "../extensions/search/search.css"
 import "../extensions/search/invisibles.css"
 import "../extensions/autocomplete/style.css"
 import "../extensions/autocomplete/icons.css"
+import "../extensions/multi-selection/multi-selection.css"
 import { matchBrackets } from "../extensions/match-brackets"
 import { highlightBracketPairs } from "../extensions/match-brackets/highlight"
 import { indentGuides } from "../extensions/guides"
@@ -29,6 +30,7 @@ import { addTooltip } from "../tooltips"
 import { languages } from "../prism"
 import { loadTheme } from "../themes"
 import { overscroll } from "../extensions/overscroll"
+import { multiSelections } from "../extensions/multi-selection"
 import {
 	autoComplete,
 	completeSnippets,
@@ -97,6 +99,7 @@ const App: Component = () => {
 		tooltip,
 		copyButton(),
 		overscroll(),
+		multiSelections(),
 		showInvisibles(),
 		autoComplete({
 			filter: fuzzyFilter,
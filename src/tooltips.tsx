@@ -1,9 +1,11 @@
-import { template as _template, insert } from "solid-js/web"
+import { insert } from "solid-js/web"
+import { template as _template } from "./core"
 import { PrismEditor } from "."
 import { JSX, Show, createSignal } from "solid-js"
+import type { CursorPosition } from "./extensions/cursor"
 
 const template = _template(
-	'<div class=pce-tooltip style=z-index:5;top:auto;display:flex;overflow-x:clip><div>',
+	"<div class=pce-tooltip style=z-index:5;top:auto;display:flex;overflow-x:clip><div>",
 )
 
 /** Function removing the tooltip from the DOM. */
@@ -13,8 +15,10 @@ export type Tooltip = {
 	/**
 	 * Moves to tooltip to align with the cursor and shows it.
 	 * @param preferPlacingAboveCursor Whether the preferred position is above the cursor or not.
+	 * @param position Position to align the tooltip with instead of the cursor. Relative to
+	 * the editor's overlays like the position returned by `editor.extensions.cursor.getPosition()`.
 	 */
-	show(preferPlacingAboveCursor?: boolean): void
+	show(preferPlacingAboveCursor?: boolean, position?: CursorPosition): void
 	/** Hides the tooltip */
 	hide(): void
 	/** The element wrapping your tooltip */
@@ -23,7 +27,8 @@ export type Tooltip = {
 
 /**
  * Utility making it easy to add tooltips positioned on the cursor to an editor. Before you
- * can show the tooltip, a {@link cursorPosition} extension must be added to the editor.
+ * can show the tooltip, a {@link cursorPosition} extension must be added to the editor,
+ * unless you pass a position to `show`.
  *
  * This works by appending your tooltip to a flex container. You can style this container
  * with the selector `.pce-tooltip` if needed. It has `overflow-x: clip` to prevent your
@@ -57,10 +62,10 @@ export const addTooltip = (
 	if (!fixedWidth) spacer.style.flexShrink = 0 as any
 
 	return {
-		show(above?: boolean) {
-			let cursor = editor.extensions.cursor
-			if (cursor) {
-				let { left, right, top, bottom, height } = cursor.getPosition()
+		show(above?: boolean, position?: CursorPosition) {
+			position ||= editor.extensions.cursor?.getPosition()
+			if (position) {
+				let { left, right, top, bottom, height } = position
 				setOpen(true)
 				spacer.style.width = (editor.props.rtl ? right : left) + "px"
 
@@ -2,10 +2,19 @@ import type { TokenStream } from "./prism"
 import type { JSX } from "solid-js"
 import type { BracketMatcher } from "./extensions/match-brackets"
 import type { Cursor } from "./extensions/cursor"
-import type { EditHistory } from "./extensions/commands"
+import type { EditHistory, HistoryState, editHistory } from "./extensions/commands"
 import type { TagMatcher } from "./extensions/match-tags"
 import type { SearchWidget } from "./extensions/search/widget"
-import type { ReadOnlyCodeFolding } from "./extensions/folding"
+import type { ReadOnlyCodeFolding, readOnlyCodeFolding } from "./extensions/folding"
+import type { multiSelections } from "./extensions/multi-selection"
+import type { Linter } from "./extensions/lint"
+import type { createDocument } from "./document"
+import type { CommandPalette } from "./extensions/command-palette"
+import type { ProtectedRanges } from "./extensions/protected-ranges"
+import type { Vim } from "./extensions/vim"
+import type { Emacs } from "./extensions/emacs"
+import type { Breadcrumbs } from "./extensions/breadcrumbs"
+import type { BlockWidgets } from "./extensions/block-widgets"
 
 export type EditorProps = {
 	/** Language used for syntax highlighting. @default "text" */
@@ -24,6 +33,21 @@ export type EditorProps = {
 	value: string
 	/** @experimental Whether the editor uses right to left directionality. @default false */
 	rtl?: boolean
+	/**
+	 * Whether only the lines in and near the viewport should be rendered. Other lines are
+	 * replaced by spacers and only syntax highlighted once they're scrolled into view, which
+	 * makes editing very large documents much faster. Has no effect with word wrap.
+	 * @default false
+	 */
+	virtualize?: boolean
+	/**
+	 * Worker used to tokenize the code off the main thread. The worker must call
+	 * `handleTokenizeRequests()` from `solid-prism-editor/prism/worker` and import the
+	 * languages used by the editor. Changed lines are displayed as plain text until the
+	 * worker is done. If the worker emits an `error` or `messageerror` event, the code is
+	 * tokenized on the main thread instead.
+	 */
+	worker?: Worker
 	/** Inline styles for the container element. */
 	style?: Omit<JSX.CSSProperties, "tab-size">
 	/** Callback used to access the underlying editor */
@@ -33,10 +57,24 @@ export type EditorProps = {
 	 * It's called right before the signal for the selection is updated.
 	 */
 	onUpdate?(value: string, editor: PrismEditor): void
+	/**
+	 * Function called after the editor's value has been changed by user input,
+	 * {@link PrismEditor.dispatch} or {@link PrismEditor.applyChanges}. Changing the `value`
+	 * prop doesn't call it.
+	 * @param changes The changes sorted by their position. Their positions refer to the
+	 * code before the changes were applied.
+	 */
+	onChange?(changes: EditorChange[], editor: PrismEditor): void
 	/** Function called after the editor's selection changes. */
 	onSelectionChange?(selection: InputSelection, value: string, editor: PrismEditor): void
 	/** List of extensions added to the editor */
 	extensions?: Extension[]
+	/**
+	 * Document displayed by the editor. While set, the `value` and `language` props are
+	 * ignored in favor of the document's code and language. Switching documents keeps the
+	 * selections, scroll position, history and folded ranges of each document.
+	 */
+	document?: EditorDocument
 }
 
 /**
@@ -59,6 +97,211 @@ export type InputCommandCallback = (
 ) => void | boolean
 export type InputSelection = [number, number, "forward" | "backward" | "none"]
 
+/** Change replacing the code between `from` and `to` with `insert`. */
+export type EditorChange = {
+	from: number
+	to: number
+	insert: string
+}
+
+/** Decoration marking the code between `from` and `to`. */
+export type RangeDecoration = {
+	from: number
+	to: number
+	/** Class added to the element wrapping the marked code. */
+	class?: string
+	/** Attributes added to the element wrapping the marked code. */
+	attributes?: Record<string, string>
+}
+
+/**
+ * Function deciding which changes are applied by user input or by
+ * {@link PrismEditor.dispatch}. Changes can be removed to block them or be modified.
+ * @param changes Changes sorted by their position. Their positions refer to `value`.
+ * @param value The editor's code before the changes.
+ * @returns The changes to apply. They must not overlap and must be sorted by position.
+ */
+export type ChangeFilter = (changes: EditorChange[], value: string) => EditorChange[]
+
+/** Decoration adding classes, attributes or a gutter marker to a line. */
+export type LineDecoration = {
+	/** Line number of the decorated line. */
+	line: number
+	/** Class added to the line element. */
+	class?: string
+	/** Attributes added to the line element. */
+	attributes?: Record<string, string>
+	/**
+	 * Text displayed in the gutter in place of the line number. It can be styled with the
+	 * `.pce-line[data-gutter-marker]::before` selector.
+	 */
+	gutterMarker?: string
+}
+
+/** Set of decorations added to an editor. */
+export type DecorationSet<T> = {
+	/**
+	 * Reactive accessor for the decorations in the set. Their positions are updated when
+	 * the code changes, and decorations that become empty are removed.
+	 */
+	decorations(this: void): T[]
+	/** Replaces the decorations in the set. */
+	set(this: void, decorations: T[]): void
+	/** Removes the set from the editor. */
+	remove(this: void): void
+}
+
+/**
+ * Precedence of a key binding. Bindings with higher precedence run first. Bindings with
+ * the same precedence run in reverse order of when they were added.
+ */
+export type KeyBindingPrecedence = "lowest" | "low" | "default" | "high" | "highest"
+
+export type KeyBinding = {
+	/**
+	 * Keys triggering the binding, such as `"Mod-Shift-k"`. Modifiers come before the key
+	 * and are separated by `-`. Valid modifiers are `Alt`, `Ctrl`, `Meta`, `Shift` and
+	 * `Mod`, which is `Meta` (Cmd) on MacOS and `Ctrl` elsewhere. The key is a
+	 * `KeyboardEvent.key` value. Single characters are case-insensitive and also match the
+	 * physical key on US keyboard layouts, and `Space` matches the space bar. `Any` matches
+	 * every key press, which is useful for modal bindings like Vim's normal mode.
+	 */
+	key?: string
+	/** Keys used instead of `key` on MacOS. An empty string disables the binding there. */
+	mac?: string
+	/** Keys used instead of `key` on Windows. An empty string disables the binding there. */
+	win?: string
+	/** Keys used instead of `key` on other platforms. An empty string disables the binding there. */
+	linux?: string
+	/**
+	 * Function called when the keys are pressed. If true is returned, bindings with lower
+	 * precedence are skipped and `e.preventDefault()` and `e.stopImmediatePropagation()` is
+	 * called automatically. Either `run` or `command` must be set.
+	 */
+	run?: KeyCommandCallback
+	/**
+	 * Name of a command in {@link PrismEditor.commands} to run instead of `run`. The
+	 * binding is then displayed as a shortcut for the command.
+	 */
+	command?: string
+	/** Precedence of the binding. @default "default" */
+	precedence?: KeyBindingPrecedence
+	/**
+	 * Bindings without a scope handle key presses in the editor's `textarea`. Other scopes
+	 * are used for key presses elsewhere, such as `"search"` for the search widget's inputs.
+	 */
+	scope?: string
+}
+
+export type Keymap = {
+	/**
+	 * Adds key bindings to the editor. Users can override the built-in bindings by adding
+	 * bindings for the same keys with higher precedence.
+	 *
+	 * If called inside a reactive scope, the bindings are removed when the scope is disposed.
+	 * @returns Function removing the bindings.
+	 */
+	add(this: void, bindings: KeyBinding[]): () => void
+	/** Reactive accessor for all bindings in the order they run. */
+	bindings(this: void): KeyBinding[]
+	/**
+	 * Gets the bindings for the keys on the current platform in the order they run.
+	 * @param keys Key string such as `"Mod-Shift-k"`.
+	 * @param scope Scope of the bindings. Defaults to the `textarea`'s bindings.
+	 */
+	lookup(this: void, keys: string, scope?: string): KeyBinding[]
+	/**
+	 * Finds bindings with identical keys, scope and precedence on the current platform.
+	 * Only the last one added runs unless it returns a falsy value.
+	 * @returns Groups of conflicting bindings.
+	 */
+	conflicts(this: void): KeyBinding[][]
+	/**
+	 * Runs the bindings matching a keyboard event until one of them returns true.
+	 * @param scope Scope of the bindings to run. Defaults to the `textarea`'s bindings.
+	 * @returns Whether the event was handled.
+	 */
+	handle(this: void, e: KeyboardEvent, scope?: string): boolean
+}
+
+export type Command = {
+	/** Unique name of the command, such as `"deleteLine"`. */
+	name: string
+	/** Title displayed for the command, such as in the command palette. */
+	title: string
+	/**
+	 * Runs the command at the editor's current selections.
+	 * @returns Whether the command did something. If true is returned when the command is
+	 * run by a key binding, the key press is handled.
+	 */
+	run(this: void): boolean | void
+	/** Default key bindings running the command. */
+	keys?: Omit<KeyBinding, "run" | "command">[]
+}
+
+export type CommandRegistry = {
+	/**
+	 * Adds commands and their default key bindings to the editor. A command replaces
+	 * commands with the same name that were added before it.
+	 *
+	 * If called inside a reactive scope, the commands are removed when the scope is disposed.
+	 * @returns Function removing the commands and their key bindings.
+	 */
+	add(this: void, commands: Command[]): () => void
+	/** Reactive accessor for all commands, excluding the replaced ones. */
+	list(this: void): Command[]
+	/** Gets the command with the name. */
+	get(this: void, name: string): Command | undefined
+	/**
+	 * Runs the command with the name.
+	 * @returns Whether the command exists and did something.
+	 */
+	run(this: void, name: string): boolean
+	/**
+	 * Gets the normalized key strings of the bindings running the command on the current
+	 * platform in the order they run.
+	 */
+	keys(this: void, name: string): string[]
+}
+
+/** Plain JSON snapshot of an editor that can be restored with {@link PrismEditor.setState}. */
+export type EditorState = {
+	/** Code of the editor. With code folding, this is the unfolded code. */
+	value: string
+	/**
+	 * Selections of the editor with the primary selection first. With code folding, their
+	 * positions refer to the folded code.
+	 */
+	selections: InputSelection[]
+	/** Horizontal and vertical scroll position of the editor's container. */
+	scroll: [number, number]
+	/** History of the {@link editHistory} extension. */
+	history?: HistoryState
+	/** Line numbers of the ranges folded by the {@link readOnlyCodeFolding} extension. */
+	folds?: number[]
+}
+
+/**
+ * Code, language and editor state that can be displayed by an editor through its
+ * `document` prop. Created with {@link createDocument}.
+ */
+export type EditorDocument = {
+	/** Reactive accessor for the document's code. */
+	value(this: void): string
+	/** Reactive accessor for the document's language. */
+	language(this: void): string
+	/** Changes the document's language. */
+	setLanguage(this: void, language: string): void
+	/** Reactive accessor for the editors displaying the document. */
+	editors(this: void): PrismEditor[]
+	/**
+	 * Snapshot of the document's selections, scroll position, history and folded ranges.
+	 * While the document is displayed, the snapshot is taken from the first editor
+	 * displaying it.
+	 */
+	readonly state: EditorState
+}
+
 export type Extension = (editor: PrismEditor) => JSX.Element | void
 
 export type PrismEditor = {
@@ -66,8 +309,11 @@ export type PrismEditor = {
 	readonly container: HTMLDivElement
 	/** Element wrapping the lines and overlays. */
 	readonly wrapper: HTMLDivElement
-	/** Collection containing the overlays as the first element, followed by all code lines. */
-	readonly lines: HTMLCollectionOf<HTMLDivElement>
+	/**
+	 * Array containing the overlays as the first element, followed by all code lines. With
+	 * virtualization, lines outside the viewport aren't in the document.
+	 */
+	readonly lines: readonly HTMLDivElement[]
 	/** Underlying `textarea` in the editor. */
 	readonly textarea: HTMLTextAreaElement
 	/** Current value of the editor. */
@@ -78,8 +324,15 @@ export type PrismEditor = {
 	readonly props: EditorProps
 	/** Record mapping an input to a function called when that input is typed. */
 	readonly inputCommandMap: Record<string, InputCommandCallback | null | undefined>
-	/** Record mapping KeyboardEvent.key to a function called when that key is pressed. */
+	/**
+	 * Record mapping KeyboardEvent.key to a function called when that key is pressed.
+	 * These commands run before the {@link PrismEditor.keymap}.
+	 */
 	readonly keyCommandMap: Record<string, KeyCommandCallback | null | undefined>
+	/** Registry of the editor's key bindings, including those added by extensions. */
+	readonly keymap: Keymap
+	/** Registry of named commands. Many extensions add their commands here. */
+	readonly commands: CommandRegistry
 	/** Object storing some of the extensions added to the editor. */
 	readonly extensions: {
 		matchBrackets?: BracketMatcher
@@ -88,6 +341,13 @@ export type PrismEditor = {
 		searchWidget?: SearchWidget
 		history?: EditHistory
 		folding?: ReadOnlyCodeFolding
+		lint?: Linter
+		commandPalette?: CommandPalette
+		protectedRanges?: ProtectedRanges
+		vim?: Vim
+		emacs?: Emacs
+		breadcrumbs?: Breadcrumbs
+		blockWidgets?: BlockWidgets
 	}
 	/** Reactive accessor for whether the `textarea` is focused. */
 	focused(this: void): boolean
@@ -95,18 +355,131 @@ export type PrismEditor = {
 	tokens(this: void): TokenStream
 	/** Reactive accessor for the current selection. */
 	selection(this: void): InputSelection
+	/**
+	 * Reactive accessor for all selections in the editor. The first selection is the primary
+	 * selection, which is the selection of the `textarea`. It's followed by any extra
+	 * selections sorted by their position.
+	 */
+	selections(this: void): InputSelection[]
 	/** Forces the editor to update. Can be useful after modifying a grammar for example. */
 	update(this: void): void
 	/** Gets the `selectionStart`, `selectionEnd` and `selectionDirection` for the `textarea`. */
 	getSelection(this: void): InputSelection
+	/**
+	 * Gets all selections in the editor. The first selection is the selection of the
+	 * `textarea`, followed by the extra selections sorted by their position.
+	 */
+	getSelections(this: void): InputSelection[]
 	/**
 	 * Sets the selection for the `textarea` and synchronously updates the `selection` signal.
+	 * Any extra selections are removed.
 	 * If you don't want the signal to update synchronously, use `textarea.setSelectionRange` instead.
 	 * @param start New selectionStart.
 	 * @param end New selectionEnd. Defaults to `start`.
 	 * @param direction New direction.
 	 */
-	setSelection(this: void, start: number, end?: number, direction?: "backward" | "forward" | "none"): void
+	setSelection(
+		this: void,
+		start: number,
+		end?: number,
+		direction?: "backward" | "forward" | "none",
+	): void
+	/**
+	 * Sets all selections of the editor and synchronously updates the `selection` and
+	 * `selections` signals. The first selection becomes the primary selection, which is
+	 * the selection of the `textarea`. Overlapping selections are merged.
+	 *
+	 * The {@link multiSelections} extension is needed to display the extra selections and
+	 * to edit at every selection when typing.
+	 * @param selections New selections for the editor. Must contain at least one selection.
+	 */
+	setSelections(this: void, selections: InputSelection[]): void
+	/**
+	 * Applies the changes to the editor (unless it's read-only) as a single edit, which
+	 * means they're undone in one step. Focuses the `textarea` if it isn't already.
+	 * @param changes Changes to apply. Their positions refer to the current code, so they
+	 * cannot overlap.
+	 * @param selections New selections for the editor where the first selection becomes the
+	 * primary selection. Defaults to mapping the current selections through the changes.
+	 */
+	dispatch(this: void, changes: EditorChange[], selections?: InputSelection[]): void
+	/**
+	 * Applies changes made elsewhere, such as by a remote user. The `textarea`'s value is
+	 * replaced directly, so the changes aren't recorded by {@link editHistory}, and they're
+	 * applied even if the editor is read-only. The selections and decorations are mapped
+	 * through the changes and the scroll position is kept. Like with user input, `onChange`
+	 * is called and the changes are applied to the other editors displaying the same
+	 * document.
+	 * @param changes Changes to apply. Their positions refer to the current code, so they
+	 * cannot overlap.
+	 */
+	applyChanges(this: void, changes: EditorChange[]): void
+	/**
+	 * Adds a set of range decorations to the editor. The marked code is wrapped in elements
+	 * with the decoration's class and attributes inside an overlay behind the code. The
+	 * end of a decoration doesn't grow when code is inserted there.
+	 *
+	 * If called inside a reactive scope, the set is removed when the scope is disposed.
+	 * @param decorations Initial decorations in the set. They're allowed to overlap. Any
+	 * extra properties on the decorations are kept.
+	 */
+	addDecorations<T extends RangeDecoration>(this: void, decorations: T[]): DecorationSet<T>
+	/**
+	 * Adds a filter that can block or modify changes from user input and
+	 * {@link PrismEditor.dispatch} before they're applied. Native input is filtered in its
+	 * `beforeinput` event when its change can be predicted, and is otherwise reverted and
+	 * replaced with the filtered changes. Undo and redo from `editHistory()` are filtered
+	 * too. Changes from
+	 * {@link PrismEditor.applyChanges} and from the `value` prop aren't filtered.
+	 *
+	 * If called inside a reactive scope, the filter is removed when the scope is disposed.
+	 * @returns Function removing the filter.
+	 */
+	addChangeFilter(this: void, filter: ChangeFilter): () => void
+	/**
+	 * Adds a set of line decorations to the editor. Unlike classes and attributes added
+	 * directly to the elements in {@link PrismEditor.lines}, line decorations aren't lost
+	 * when lines are rendered again. Their line numbers are updated when lines are added or
+	 * removed, and decorations on removed lines are removed.
+	 *
+	 * If called inside a reactive scope, the set is removed when the scope is disposed.
+	 * @param decorations Initial decorations in the set. Any extra properties on the
+	 * decorations are kept.
+	 */
+	addLineDecorations<T extends LineDecoration>(this: void, decorations: T[]): DecorationSet<T>
+	/**
+	 * Measures where the caret would be drawn at a position. Works with word wrap and
+	 * right-to-left text. Positions refer to {@link PrismEditor.value}, so with code folding
+	 * they refer to the folded code, where each folded range is replaced by a placeholder.
+	 * Positions in the full code can be mapped to it with `toFoldedPosition()` from
+	 * `editor.extensions.folding`, which moves positions inside folded ranges to the
+	 * placeholder. On lines that aren't rendered due to virtualization, the position is
+	 * estimated from the line height and the width of the rendered characters.
+	 * @param pos Position in the code.
+	 * @returns A zero-width rect in client coordinates, or `null` if the position is outside
+	 * the code or no lines are rendered.
+	 */
+	coordsAtPos(this: void, pos: number): DOMRect | null
+	/**
+	 * Finds the position in the code closest to the client coordinates. Coordinates outside
+	 * the code, such as in the gutter, are clamped to the nearest line and character.
+	 * @param x Horizontal client coordinate, for example from `MouseEvent.clientX`.
+	 * @param y Vertical client coordinate, for example from `MouseEvent.clientY`.
+	 * @returns The position of the closest caret stop in {@link PrismEditor.value}.
+	 */
+	posAtCoords(this: void, x: number, y: number): number
+	/**
+	 * Captures the code, selections, scroll position, edit history and folded ranges of
+	 * the editor as plain JSON, which can be stored in for example `localStorage`.
+	 */
+	getState(this: void): EditorState
+	/**
+	 * Restores a snapshot from {@link PrismEditor.getState}, for example in the `onMount`
+	 * prop after remounting the editor. If the snapshot has no history, the history is
+	 * cleared. Replacing the code calls `onUpdate` like changing the `value` prop, but
+	 * `onChange` isn't called.
+	 */
+	setState(this: void, state: EditorState): void
 }
 
 export type CommentTokens = {
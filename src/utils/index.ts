@@ -1,9 +1,7 @@
-import { addTextareaListener, numLines, isChrome, isWebKit } from "../core"
+import { mapPosition, numLines, prevSelection } from "../core"
 import { PrismEditor, InputSelection } from "../types"
 import { getLineEnd, getLineStart } from "./local"
 
-let prevSelection: InputSelection | 0
-
 /** Escapes all special regex characters with a backslash and returns the escaped string. */
 const regexEscape = (str: string) => str.replace(/[$+?|.^*()[\]{}\\]/g, "\\$&")
 
@@ -84,6 +82,9 @@ const getLanguage = (editor: PrismEditor, position?: number) =>
 /**
  * Inserts text into the editor (unless it's read-only) while keeping undo/redo history.
  * Focuses the `textarea` if it isn't already.
+ *
+ * If `start` is omitted and the editor has multiple selections, the text is inserted at
+ * every selection, and the cursors are placed after the inserted text.
  * @param editor Target editor.
  * @param text Text to insert.
  * @param start Position to start the insertion. Defaults to `selectionStart`.
@@ -99,56 +100,33 @@ const insertText = (
 	newCursorStart?: number | null,
 	newCursorEnd?: number | null,
 ) => {
-	if (!editor.props.readOnly) {
-		prevSelection = editor.getSelection()
-		end ??= start
-
-		let textarea = editor.textarea
-		let value = editor.value
-		// Bug inserting new lines at the end if the editor ends with an empty line
-		let avoidBug =
-			isChrome && !value[end ?? prevSelection[1]] && /\n$/.test(text) && /^$|\n$/.test(value)
-
-		editor.focused() || textarea.focus()
-		if (start != null) textarea.setSelectionRange(start, end!)
-
-		if (newCursorStart != null) {
-			addTextareaListener(
-				editor,
-				"input",
-				() => {
-					textarea.setSelectionRange(
-						newCursorStart,
-						newCursorEnd ?? newCursorStart,
-						(<InputSelection>prevSelection)[2],
-					)
-				},
-				{ once: true, capture: true },
-			)
-		}
-
-		// Only Safari dispatches a beforeinput event
-		isWebKit || textarea.dispatchEvent(new InputEvent("beforeinput", { data: text }))
-
-		// Inserting escaped HTML in Chrome and Safari instead for much better performance
-		if (isChrome || isWebKit) {
-			if (avoidBug) {
-				// This means the last new line won't be inserted if there's
-				// no selection, but that's less annoying than the bug.
-				textarea.selectionEnd--
-				text = text.slice(0, -1)
-			}
-			// New line at the end is always ignored in Safari
-			if (isWebKit) text += "\n"
-			document.execCommand(
-				text ? "insertHTML" : "delete",
-				false,
-				text.replace(/&/g, "&amp;").replace(/</g, "&lt;"),
-			)
-			if (avoidBug) textarea.selectionStart++
-		} else document.execCommand(text ? "insertText" : "delete", false, text)
-
-		prevSelection = 0
+	const [primary, ...extra] = editor.getSelections()
+
+	if (start == null && extra[0]) {
+		const changes = [primary, ...extra].map(([from, to]) => ({ from, to, insert: text }))
+		const sorted = changes.slice().sort((a, b) => a.from - b.from)
+		editor.dispatch(
+			changes,
+			changes.map(change => {
+				const pos = mapPosition(change.to, sorted)
+				return [pos, pos, "none"]
+			}),
+		)
+	} else {
+		const from = start ?? primary[0]
+		const changes = [{ from, to: end ?? start ?? primary[1], insert: text }]
+		const cursorStart = newCursorStart ?? from + text.length
+
+		editor.dispatch(changes, [
+			[cursorStart, newCursorEnd ?? cursorStart, newCursorStart == null ? "none" : primary[2]],
+			...extra.map(
+				([start, end, direction]): InputSelection => [
+					mapPosition(start, changes),
+					mapPosition(end, changes),
+					direction,
+				],
+			),
+		])
 	}
 }
 
@@ -172,6 +150,7 @@ export {
 	getClosestToken,
 	getLanguage,
 	insertText,
+	mapPosition,
 	getModifierCode,
 	prevSelection,
 }
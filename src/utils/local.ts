@@ -1,6 +1,16 @@
+import { createEffect, on } from "solid-js"
 import { PrismEditor } from "../types"
 import { addTextareaListener, isChrome } from "../core"
 
+/** Languages where scopes are found with indentation. */
+const indentLanguages = /^(?:py|python|ya?ml)$/
+
+/**
+ * Start and end of a scope followed by the end of its header and the index of its opening
+ * tag. The header is where the scope's label is found.
+ */
+export type Scope = [from: number, to: number, headerEnd: number, tag?: number]
+
 const scrollToEl = (editor: PrismEditor, el: HTMLElement, paddingTop = 0) => {
 	const style1 = editor.container.style
 	const style2 = document.documentElement.style
@@ -29,4 +39,83 @@ const addListener = <T extends keyof HTMLElementEventMap>(
 	return () => editor.textarea.removeEventListener(type, listener, options)
 }
 
-export { scrollToEl, getLineStart, getLineEnd, addListener }
+/**
+ * Finds the scopes from the pairs of the bracket and tag matchers. In Python and YAML,
+ * indentation is used as well. The scopes are sorted by their start, and outer scopes come
+ * first.
+ */
+const getScopes = ({ value, extensions, props }: PrismEditor) => {
+	const { matchTags, matchBrackets } = extensions
+	const scopes: Scope[] = []
+
+	if (matchTags) {
+		const { tags, pairs } = matchTags
+		for (let i = 0, j: number, l = pairs.length; i < l; i++) {
+			if ((j = pairs[i]!) > i) scopes.push([tags[i][1], tags[j][2], tags[i][2], i])
+		}
+	}
+	if (matchBrackets) {
+		const { brackets, pairs } = matchBrackets
+		for (let i = 0, j: number, l = pairs.length; i < l; i++) {
+			if ((j = pairs[i]!) > i && brackets[i][3] != "(") {
+				const pos = brackets[i][1]
+				const prev = brackets[i - 1]
+				let lineStart = getLineStart(value, pos)
+				if (prev?.[3] == ")") {
+					// Parameters spanning multiple lines are included in the header
+					if (pairs[i - 1]! < i && !/[;,]/.test(value.slice(prev[5], pos))) {
+						lineStart = Math.min(lineStart, getLineStart(value, brackets[pairs[i - 1]!][1]))
+					}
+				} else if (prev && prev[1] >= lineStart) lineStart = prev[5]
+				// Skipping the end of the previous scope in for example `} else {`
+				while (/[\s,)\]}]/.test(value[lineStart]) && lineStart < pos) lineStart++
+				scopes.push([lineStart, brackets[j][5], pos])
+			}
+		}
+	}
+	if (indentLanguages.test(props.language)) {
+		const stack: [from: number, indent: number][] = []
+		const tabSize = props.tabSize || 2
+		let last = 0
+		let pos = 0
+		const addScope = (from: number) => {
+			const headerEnd = getLineEnd(value, from)
+			if (last > headerEnd) scopes.push([from, last, headerEnd])
+		}
+
+		value.split("\n").forEach(text => {
+			const [indentation] = text.match(/^[ \t]*/)!
+			if (indentation.length < text.length) {
+				const indent = indentation.replace(/\t/g, " ".repeat(tabSize)).length
+				while (stack[0] && stack[stack.length - 1][1] >= indent) addScope(stack.pop()![0])
+				stack.push([pos + indentation.length, indent])
+				last = pos + text.length
+			}
+			pos += text.length + 1
+		})
+		stack.forEach(([from]) => addScope(from))
+	}
+
+	return scopes.sort((a, b) => a[0] - b[0] || b[1] - a[1])
+}
+
+/**
+ * Calls the callback with the editor's scopes whenever its tokens change. This is delayed
+ * until the bracket and tag matchers have updated.
+ */
+const trackScopes = (editor: PrismEditor, callback: (scopes: Scope[]) => void) => {
+	let pending = false
+	createEffect(
+		on(editor.tokens, () => {
+			if (!pending) {
+				pending = true
+				queueMicrotask(() => {
+					pending = false
+					callback(getScopes(editor))
+				})
+			}
+		}),
+	)
+}
+
+export { scrollToEl, getLineStart, getLineEnd, addListener, getScopes, trackScopes }
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite"
 import solidPlugin from "vite-plugin-solid"
 import dts from "vite-plugin-dts"
@@ -26,9 +27,34 @@ const entries: Record<string, string> = {
 	autocomplete: "src/extensions/autocomplete/style.css",
 	"autocomplete-icons": "src/extensions/autocomplete/icons.css",
 	"extensions/overscroll": "src/extensions/overscroll.ts",
+	"extensions/multi-selection/index": "src/extensions/multi-selection/index.ts",
+	"multi-selection": "src/extensions/multi-selection/multi-selection.css",
+	"extensions/lint/index": "src/extensions/lint/index.ts",
+	lint: "src/extensions/lint/lint.css",
+	"extensions/hover/index": "src/extensions/hover/index.ts",
+	hover: "src/extensions/hover/hover.css",
+	"extensions/command-palette/index": "src/extensions/command-palette/index.ts",
+	"command-palette": "src/extensions/command-palette/command-palette.css",
+	"extensions/collab/index": "src/extensions/collab/index.ts",
+	collab: "src/extensions/collab/collab.css",
+	"extensions/protected-ranges/index": "src/extensions/protected-ranges/index.ts",
+	"protected-ranges": "src/extensions/protected-ranges/protected-ranges.css",
+	"extensions/vim/index": "src/extensions/vim/index.ts",
+	vim: "src/extensions/vim/vim.css",
+	"extensions/emacs/index": "src/extensions/emacs/index.ts",
+	emacs: "src/extensions/emacs/emacs.css",
+	"extensions/minimap/index": "src/extensions/minimap/index.ts",
+	minimap: "src/extensions/minimap/minimap.css",
+	"extensions/sticky-scroll/index": "src/extensions/sticky-scroll/index.ts",
+	"sticky-scroll": "src/extensions/sticky-scroll/sticky-scroll.css",
+	"extensions/breadcrumbs/index": "src/extensions/breadcrumbs/index.ts",
+	breadcrumbs: "src/extensions/breadcrumbs/breadcrumbs.css",
+	"extensions/block-widgets/index": "src/extensions/block-widgets/index.ts",
+	"block-widgets": "src/extensions/block-widgets/block-widgets.css",
 	folding: "src/extensions/folding/folding.css",
 	setups: "src/setups.ts",
 	tooltips: "src/tooltips.tsx",
+	"code-block": "src/code-block.ts",
 	scrollbar: "src/scrollbar.css",
 	"rtl-layout": "src/rtl-layout.css",
 	layout: "src/layout.css",
@@ -36,6 +62,8 @@ const entries: Record<string, string> = {
 	"utils/index": "src/utils/index.ts",
 	"prism/index": "src/prism/index.js",
 	"prism/utils": "src/prism/utils.js",
+	"prism/incremental": "src/prism/incremental.ts",
+	"prism/worker": "src/prism/worker.ts",
 }
 
 await Promise.all([
@@ -70,7 +98,7 @@ export default defineConfig({
 		solidPlugin(),
 		dts({
 			beforeWriteFile(filePath) {
-				if (filePath.includes("languages/shared")) {
+				if (filePath.includes("languages/shared") || filePath.includes(".test.")) {
 					return false
 				}
 			},
@@ -79,6 +107,9 @@ export default defineConfig({
 	server: {
 		port: 3000,
 	},
+	test: {
+		environment: "node",
+	},
 	build: {
 		cssCodeSplit: true,
 		sourcemap: true,